@@ -0,0 +1,174 @@
+/**
+ * Change Detection Alerts
+ *
+ * Compares each new capture with the widget's previous snapshot, either by
+ * the percentage of changed pixels or by the text of the selected elements,
+ * and records an alert in the dashboard's alerts log when it changed.
+ */
+
+import { Notification, type BrowserWindow, type NativeImage } from 'electron';
+import { getDatabase, generateId } from '../database/connection';
+import { alertFromRow } from '../types/dashboard';
+import type { Widget, WidgetAlert, WidgetAlertRow, WidgetSnapshot } from '../types/dashboard';
+import { getChangeRatio, loadSnapshotImage } from './diff';
+
+// Longest text shown in a notification body
+const NOTIFICATION_TEXT_LENGTH = 120;
+// Alerts kept per dashboard; older entries are dropped when new ones are recorded
+const MAX_ALERTS_PER_DASHBOARD = 500;
+
+export interface DetectedChange {
+  kind: WidgetAlert['kind'];
+  message: string;
+  changeRatio: number | null;
+  previousText: string | null;
+  currentText: string | null;
+}
+
+/**
+ * Compare a new capture with the previous snapshot according to the widget's alert mode.
+ * Returns null when alerts are off, there is nothing to compare with, or nothing changed.
+ */
+export function detectChange(
+  widget: Widget,
+  previous: WidgetSnapshot | null,
+  image: NativeImage,
+  text: string | null
+): DetectedChange | null {
+  if (widget.alertMode === 'off' || !previous) {
+    return null;
+  }
+
+  if (widget.alertMode === 'text') {
+    if (text === null || previous.text === null || normalizeText(text) === normalizeText(previous.text)) {
+      return null;
+    }
+    return {
+      kind: 'text',
+      message: `Text changed to "${truncate(text)}"`,
+      changeRatio: null,
+      previousText: previous.text,
+      currentText: text,
+    };
+  }
+
+  const changeRatio = getChangeRatio(loadSnapshotImage(previous), image);
+  const percent = changeRatio * 100;
+  if (percent < widget.alertThreshold || changeRatio === 0) {
+    return null;
+  }
+  return {
+    kind: 'pixel',
+    message: `${percent.toFixed(1)}% of pixels changed`,
+    changeRatio,
+    previousText: null,
+    currentText: null,
+  };
+}
+
+/**
+ * Record a detected change in the dashboard's alerts log
+ */
+export function recordAlert(widget: Widget, change: DetectedChange, snapshotId: string | null): WidgetAlert {
+  const db = getDatabase();
+  const id = generateId();
+
+  db.prepare(`
+    INSERT INTO widget_alerts (
+      id, widget_id, dashboard_id, widget_name, kind, message,
+      change_ratio, previous_text, current_text, snapshot_id, acknowledged, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+  `).run(
+    id,
+    widget.id,
+    widget.dashboardId,
+    widget.name,
+    change.kind,
+    change.message,
+    change.changeRatio,
+    change.previousText,
+    change.currentText,
+    snapshotId,
+    Date.now()
+  );
+
+  // Keep the log bounded
+  db.prepare(`
+    DELETE FROM widget_alerts WHERE dashboard_id = ? AND id NOT IN (
+      SELECT id FROM widget_alerts WHERE dashboard_id = ? ORDER BY created_at DESC LIMIT ?
+    )
+  `).run(widget.dashboardId, widget.dashboardId, MAX_ALERTS_PER_DASHBOARD);
+
+  return alertFromRow(db.prepare('SELECT * FROM widget_alerts WHERE id = ?').get(id) as WidgetAlertRow);
+}
+
+/**
+ * Show a desktop notification for an alert. Clicking it brings the app to the front.
+ */
+export function showAlertNotification(alert: WidgetAlert, targetWindow: BrowserWindow | null): void {
+  if (!Notification.isSupported()) return;
+
+  const notification = new Notification({
+    title: alert.kind === 'rule' ? `${alert.widgetName}: rule matched` : `${alert.widgetName} changed`,
+    body: alert.message,
+  });
+  notification.on('click', () => {
+    if (targetWindow && !targetWindow.isDestroyed()) {
+      if (targetWindow.isMinimized()) targetWindow.restore();
+      targetWindow.show();
+      targetWindow.focus();
+    }
+  });
+  notification.show();
+}
+
+/**
+ * List a dashboard's alerts, newest first
+ */
+export function listAlerts(dashboardId: string): WidgetAlert[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM widget_alerts WHERE dashboard_id = ? ORDER BY created_at DESC')
+    .all(dashboardId) as WidgetAlertRow[];
+  return rows.map(alertFromRow);
+}
+
+/**
+ * Mark a dashboard's alerts as seen, optionally only those of one widget
+ */
+export function acknowledgeAlerts(dashboardId: string, widgetId?: string): void {
+  const db = getDatabase();
+  if (widgetId) {
+    db.prepare('UPDATE widget_alerts SET acknowledged = 1 WHERE dashboard_id = ? AND widget_id = ?').run(
+      dashboardId,
+      widgetId
+    );
+  } else {
+    db.prepare('UPDATE widget_alerts SET acknowledged = 1 WHERE dashboard_id = ?').run(dashboardId);
+  }
+}
+
+/**
+ * Delete a dashboard's alerts log
+ */
+export function clearAlerts(dashboardId: string): void {
+  getDatabase().prepare('DELETE FROM widget_alerts WHERE dashboard_id = ?').run(dashboardId);
+}
+
+/**
+ * Delete a widget's alerts (after the widget was deleted)
+ */
+export function deleteWidgetAlerts(widgetId: string): void {
+  getDatabase().prepare('DELETE FROM widget_alerts WHERE widget_id = ?').run(widgetId);
+}
+
+// Ignore whitespace-only differences (re-wrapped text, trailing newlines)
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  const normalized = normalizeText(text);
+  return normalized.length > NOTIFICATION_TEXT_LENGTH
+    ? `${normalized.slice(0, NOTIFICATION_TEXT_LENGTH - 1)}…`
+    : normalized;
+}
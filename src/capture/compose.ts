@@ -0,0 +1,74 @@
+/**
+ * Composite Images
+ *
+ * Combines the separately captured elements of a multi-selector widget into
+ * one image: stacked vertically, side by side, or at their relative positions
+ * on the page. Gaps are left transparent.
+ */
+
+import { nativeImage, type NativeImage } from 'electron';
+import type { CompositeLayout } from '../types/dashboard';
+
+export interface CompositePart {
+  image: NativeImage;
+  // Element position and width on the page in CSS pixels (used for the 'page' layout and scaling)
+  pageX: number;
+  pageY: number;
+  width: number;
+}
+
+interface Placement {
+  part: CompositePart;
+  x: number;
+  y: number;
+}
+
+/**
+ * Compose captured elements into one image. Padding is in CSS pixels and is
+ * applied around every element.
+ */
+export function composeImages(parts: CompositePart[], layout: CompositeLayout, padding: number): NativeImage {
+  if (parts.length === 1 && padding === 0) {
+    return parts[0].image;
+  }
+
+  // Captures are taken at the device scale factor; lay out in image pixels
+  const scale = parts[0].image.getSize().width / parts[0].width || 1;
+  const gap = Math.round(padding * scale);
+  const placements = placeParts(parts, layout, gap, scale);
+
+  const width = Math.max(...placements.map(({ part, x }) => x + part.image.getSize().width)) + gap;
+  const height = Math.max(...placements.map(({ part, y }) => y + part.image.getSize().height)) + gap;
+  const output = Buffer.alloc(width * height * 4);
+
+  for (const { part, x, y } of placements) {
+    const size = part.image.getSize();
+    // toBitmap() returns raw BGRA pixels at the image's size
+    const pixels = part.image.toBitmap();
+    for (let row = 0; row < size.height; row++) {
+      pixels.copy(output, ((y + row) * width + x) * 4, row * size.width * 4, (row + 1) * size.width * 4);
+    }
+  }
+
+  return nativeImage.createFromBitmap(output, { width, height });
+}
+
+function placeParts(parts: CompositePart[], layout: CompositeLayout, gap: number, scale: number): Placement[] {
+  if (layout === 'page') {
+    const minX = Math.min(...parts.map((part) => part.pageX));
+    const minY = Math.min(...parts.map((part) => part.pageY));
+    return parts.map((part) => ({
+      part,
+      x: gap + Math.round((part.pageX - minX) * scale),
+      y: gap + Math.round((part.pageY - minY) * scale),
+    }));
+  }
+
+  let offset = gap;
+  return parts.map((part) => {
+    const size = part.image.getSize();
+    const placement = layout === 'horizontal' ? { part, x: offset, y: gap } : { part, x: gap, y: offset };
+    offset += (layout === 'horizontal' ? size.width : size.height) + gap;
+    return placement;
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Capture Credentials
+ *
+ * Resolves the decrypted login credentials for a widget, either from its
+ * credential group or from its per-widget credentials, or for a session
+ * partition (see sign-in.ts).
+ */
+
+import { safeStorage } from 'electron';
+import { getDatabase } from '../database/connection';
+import type { Widget, WidgetCredentialsRow, CredentialGroupRow } from '../types/dashboard';
+import type { ScreenshotCaptureRequest } from './screenshot';
+
+export type CaptureCredentials = NonNullable<ScreenshotCaptureRequest['credentials']>;
+
+export function loadCaptureCredentials(widget: Widget): CaptureCredentials | undefined {
+  if (!widget.hasCredentials) {
+    return undefined;
+  }
+
+  const db = getDatabase();
+
+  if (widget.credentialGroupId) {
+    const group = db
+      .prepare('SELECT * FROM credential_groups WHERE id = ?')
+      .get(widget.credentialGroupId) as CredentialGroupRow | undefined;
+    return group && toCaptureCredentials(group);
+  }
+
+  const row = db
+    .prepare('SELECT * FROM widget_credentials WHERE widget_id = ?')
+    .get(widget.id) as WidgetCredentialsRow | undefined;
+  return row && toCaptureCredentials(row);
+}
+
+/**
+ * Credentials that log in to a session partition: its credential group's, or
+ * those of the widget that has the partition to itself
+ */
+export function loadPartitionCredentials(partition: string): CaptureCredentials | undefined {
+  const db = getDatabase();
+
+  const group = db.prepare('SELECT * FROM credential_groups WHERE partition = ?').get(partition) as
+    | CredentialGroupRow
+    | undefined;
+  if (group) {
+    return toCaptureCredentials(group);
+  }
+
+  const row = db
+    .prepare(
+      `SELECT widget_credentials.* FROM widget_credentials
+       JOIN widgets ON widgets.id = widget_credentials.widget_id
+       WHERE widgets.partition = ?`
+    )
+    .get(partition) as WidgetCredentialsRow | undefined;
+  return row && toCaptureCredentials(row);
+}
+
+function toCaptureCredentials(row: WidgetCredentialsRow | CredentialGroupRow): CaptureCredentials {
+  return {
+    username: safeStorage.decryptString(row.encrypted_username),
+    password: safeStorage.decryptString(row.encrypted_password),
+    loginUrl: row.login_url,
+    usernameSelector: row.username_selector,
+    passwordSelector: row.password_selector,
+    submitSelector: row.submit_selector || '',
+    loginSteps: JSON.parse(row.login_steps),
+    totpSecret: row.encrypted_totp_secret ? safeStorage.decryptString(row.encrypted_totp_secret) : '',
+    totpSelector: row.totp_selector || '',
+    successSelector: row.success_selector || '',
+    successUrl: row.success_url || '',
+  };
+}
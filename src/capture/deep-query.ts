@@ -0,0 +1,34 @@
+/**
+ * Piercing Selectors
+ *
+ * In-page expressions for selectors that may pierce shadow roots and iframes
+ * (see src/shared/page-scripts.ts for the ' >>> ' syntax).
+ */
+
+import { DEEP_QUERY_SOURCE, PIERCE_SEPARATOR } from '../shared/page-scripts';
+
+export function isPiercingSelector(selector: string): boolean {
+  return selector.includes(PIERCE_SEPARATOR);
+}
+
+/**
+ * In-page expression evaluating to the element a (piercing) selector matches, or null
+ */
+export function getDeepQueryExpression(selector: string): string {
+  return `(${DEEP_QUERY_SOURCE})(${JSON.stringify(selector)})`;
+}
+
+/**
+ * In-page expression that is truthy once any of the selectors matches a rendered element
+ */
+export function getAnySelectorVisibleExpression(selectors: string[]): string {
+  return `(() => {
+    const query = ${DEEP_QUERY_SOURCE};
+    return ${JSON.stringify(selectors)}.some((selector) => {
+      const element = query(selector);
+      if (!element) return false;
+      const rect = element.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    });
+  })()`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Snapshot Diff
+ *
+ * Compares two snapshot images pixel by pixel in the main process. The result
+ * image is the newer snapshot dimmed to grayscale with changed pixels painted
+ * red, sized to cover both images (areas outside either image count as changed).
+ * Change ratios for alerts are taken from downscaled copies, since they run
+ * after every capture; only the diff view compares at full resolution.
+ */
+
+import { nativeImage, type NativeImage } from 'electron';
+import type { SnapshotDiff, WidgetSnapshot } from '../types/dashboard';
+import { getSnapshotFilePath } from './snapshots';
+
+// Sum of absolute channel differences above which a pixel counts as changed,
+// so compression noise and subpixel anti-aliasing are ignored
+const CHANGE_THRESHOLD = 48;
+
+// Width the wider of two images is scaled down to before computing a change ratio
+const SAMPLE_WIDTH = 320;
+
+interface ComparisonResult {
+  width: number;
+  height: number;
+  changedPixels: number;
+  // Rendered BGRA diff bitmap, only when requested
+  output: Buffer | null;
+}
+
+/**
+ * Load a snapshot's image from disk. Throws if the file can't be read.
+ */
+export function loadSnapshotImage(snapshot: WidgetSnapshot): NativeImage {
+  const image = nativeImage.createFromPath(getSnapshotFilePath(snapshot));
+  if (image.isEmpty()) {
+    throw new Error('Snapshot image file is missing');
+  }
+  return image;
+}
+
+/**
+ * Diff two snapshots. Throws if either file can't be read.
+ */
+export function diffSnapshots(base: WidgetSnapshot, compare: WidgetSnapshot): SnapshotDiff {
+  const { width, height, changedPixels, output } = compareImages(
+    loadSnapshotImage(base),
+    loadSnapshotImage(compare),
+    true
+  );
+  const diffImage = nativeImage.createFromBitmap(output!, { width, height });
+  return {
+    data: diffImage.toDataURL(),
+    width,
+    height,
+    changedPixels,
+    totalPixels: width * height,
+  };
+}
+
+/**
+ * Fraction (0-1) of pixels that differ between two images, without rendering a diff image
+ */
+export function getChangeRatio(base: NativeImage, compare: NativeImage): number {
+  // Both images are scaled by the same factor so a size change still counts as changed area
+  const scale = Math.min(1, SAMPLE_WIDTH / Math.max(base.getSize().width, compare.getSize().width, 1));
+  const { width, height, changedPixels } = compareImages(downscale(base, scale), downscale(compare, scale), false);
+  return width * height > 0 ? changedPixels / (width * height) : 0;
+}
+
+function downscale(image: NativeImage, scale: number): NativeImage {
+  if (scale >= 1) return image;
+  const { width, height } = image.getSize();
+  return image.resize({
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+    quality: 'good',
+  });
+}
+
+function compareImages(baseImage: NativeImage, compareImage: NativeImage, render: boolean): ComparisonResult {
+  const baseSize = baseImage.getSize();
+  const compareSize = compareImage.getSize();
+  // toBitmap() returns raw BGRA pixels at the image's size
+  const basePixels = baseImage.toBitmap();
+  const comparePixels = compareImage.toBitmap();
+
+  const width = Math.max(baseSize.width, compareSize.width);
+  const height = Math.max(baseSize.height, compareSize.height);
+  const output = render ? Buffer.alloc(width * height * 4) : null;
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const inBase = x < baseSize.width && y < baseSize.height;
+      const inCompare = x < compareSize.width && y < compareSize.height;
+      const b = (y * baseSize.width + x) * 4;
+      const c = (y * compareSize.width + x) * 4;
+
+      let changed = inBase !== inCompare;
+      if (inBase && inCompare) {
+        const delta =
+          Math.abs(basePixels[b] - comparePixels[c]) +
+          Math.abs(basePixels[b + 1] - comparePixels[c + 1]) +
+          Math.abs(basePixels[b + 2] - comparePixels[c + 2]);
+        changed = delta > CHANGE_THRESHOLD;
+      }
+
+      if (changed) {
+        changedPixels++;
+      }
+      if (!output) continue;
+
+      if (changed) {
+        // BGRA red
+        output[out] = 0;
+        output[out + 1] = 0;
+        output[out + 2] = 255;
+        output[out + 3] = 255;
+      } else if (inCompare) {
+        // Dimmed grayscale of the newer image for context
+        const gray = Math.round(
+          (comparePixels[c] * 0.114 + comparePixels[c + 1] * 0.587 + comparePixels[c + 2] * 0.299) * 0.4 + 153
+        );
+        output[out] = gray;
+        output[out + 1] = gray;
+        output[out + 2] = gray;
+        output[out + 3] = 255;
+      }
+    }
+  }
+
+  return { width, height, changedPixels, output };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseExtractedNumber } from './extract';
+
+function parse(text: string, numberPattern?: string): number | null {
+  return parseExtractedNumber(text, { selectors: [], parseNumber: true, numberPattern });
+}
+
+describe('parseExtractedNumber', () => {
+  it.each([
+    ['42', 42],
+    ['1,234.5', 1234.5],
+    ['1,234,567', 1234567],
+    ['1,234', 1234],
+    ['3.14', 3.14],
+    ['€1.234,50', 1234.5],
+    ['1.234.567 €', 1234567],
+    ['12,5 %', 12.5],
+    ['$ 1,234.56 USD', 1234.56],
+    ['Revenue: 98,765 this month', 98765],
+  ])('parses %s', (text, value) => {
+    expect(parse(text)).toBe(value);
+  });
+
+  it.each([
+    ['-42', -42],
+    ['-1,234.5', -1234.5],
+    ['€-1.234,50', -1234.5],
+    ['Change: −3.5%', -3.5],
+  ])('parses the negative number %s', (text, value) => {
+    expect(parse(text)).toBe(value);
+  });
+
+  it('takes the first number in the text', () => {
+    expect(parse('Q3 2024: 1,200 orders')).toBe(3);
+  });
+
+  it('uses the first capture group of a custom pattern', () => {
+    expect(parse('Q3 2024: 1,200 orders', '([\\d,.]+) orders')).toBe(1200);
+    expect(parse('Balance: -€1.234,50', 'Balance: (-?\\D*[\\d.,]+)')).toBe(-1234.5);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(parse('No data')).toBeNull();
+    expect(parse('')).toBeNull();
+  });
+
+  it('returns null for an invalid pattern', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(parse('42', '(')).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  it('returns null when number parsing is off', () => {
+    expect(parseExtractedNumber('42', { selectors: [], parseNumber: false })).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Text Extraction
+ *
+ * Parses the text captured from 'text' widgets into a number for KPI tiles.
+ */
+
+import type { TextSelectorData } from '../types/dashboard';
+
+// First number in the text, allowing a sign, thousands separators and decimals
+// in either the 1,234.5 or the 1.234,5 style
+export const DEFAULT_NUMBER_PATTERN = '[-\\u2212]?\\d(?:[\\d.,]*\\d)?';
+
+/**
+ * Parse the number out of a text widget's extracted text.
+ * Returns null when number parsing is off, the pattern is invalid, or nothing matched.
+ */
+export function parseExtractedNumber(text: string, data: TextSelectorData): number | null {
+  if (!data.parseNumber) {
+    return null;
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(data.numberPattern || DEFAULT_NUMBER_PATTERN);
+  } catch {
+    console.warn('[Extract] Invalid number pattern:', data.numberPattern);
+    return null;
+  }
+
+  const match = text.match(pattern);
+  if (!match) {
+    return null;
+  }
+
+  const value = toNumber(match[1] ?? match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Drop currency symbols, units and thousands separators around the digits. With
+// both separators the last one is the decimal point; a separator that repeats,
+// or a single comma before exactly three digits, separates thousands.
+function toNumber(matched: string): number {
+  const negative = /^\D*[-\u2212]/.test(matched);
+  const digits = matched.replace(/[^\d.,]/g, '');
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  let decimal: '.' | ',' | null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot !== -1) {
+    decimal = digits.indexOf('.') === lastDot ? '.' : null;
+  } else if (lastComma !== -1) {
+    decimal = digits.indexOf(',') === lastComma && !/,\d{3}$/.test(digits) ? ',' : null;
+  } else {
+    decimal = null;
+  }
+
+  const point = decimal ? digits.lastIndexOf(decimal) : digits.length;
+  const value = parseFloat(`${digits.slice(0, point).replace(/[.,]/g, '')}.${digits.slice(point + 1)}`);
+  return negative ? -value : value;
+}
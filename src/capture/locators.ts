@@ -0,0 +1,110 @@
+/**
+ * Element Locators
+ *
+ * Finds a widget's selected elements again after the site changed underneath
+ * them. The picker records several candidate locators per element (id,
+ * test/ARIA attributes, a text anchor, its CSS path and its XPath) plus a
+ * fingerprint. Candidates are tried in order; when none matches, the element
+ * that best resembles the fingerprint is used and the widget shows a warning.
+ */
+
+import type { WebContents } from 'electron';
+import type { ElementLocator, LocatorMatch, LocatorStrategy } from '../types/dashboard';
+import { FIND_CANDIDATE_SOURCE, FIND_LOCATORS_SOURCE, IS_VISIBLE_SOURCE } from '../shared/page-scripts';
+import { isPiercingSelector } from './deep-query';
+
+// Marks the elements found for a capture, so the rest of the capture can select them
+const MATCH_ATTRIBUTE = 'data-dashboard-match';
+
+const STRATEGY_LABELS: Record<LocatorStrategy | 'fingerprint', string> = {
+  id: 'id',
+  attribute: 'attribute',
+  text: 'text anchor',
+  css: 'CSS path',
+  xpath: 'XPath',
+  fingerprint: 'similarity to the picked element',
+};
+
+/**
+ * In-page expression that is truthy once any selected element can be found
+ * through one of its candidates (the default wait for widgets with locators)
+ */
+export function getLocatorReadyExpression(locators: ElementLocator[]): string {
+  return `(() => {
+    const find = ${FIND_CANDIDATE_SOURCE};
+    const isVisible = ${IS_VISIBLE_SOURCE};
+    const locators = ${JSON.stringify(locators)};
+    return locators.some((locator) => locator.candidates.some((candidate) => {
+      const el = find(candidate);
+      return el && isVisible(el);
+    }));
+  })()`;
+}
+
+/**
+ * Find each selected element (see FIND_LOCATORS_SOURCE in src/shared/page-scripts.ts). Found elements can
+ * then be selected with getMatchSelector.
+ */
+export async function resolveLocators(webContents: WebContents, locators: ElementLocator[]): Promise<LocatorMatch[]> {
+  return webContents.executeJavaScript(`(() => {
+    const matches = (${FIND_LOCATORS_SOURCE})(${JSON.stringify(locators)});
+    return matches.map(({ el, strategy, candidateIndex }, index) => {
+      if (el) el.setAttribute('${MATCH_ATTRIBUTE}', String(index));
+      return { strategy, candidateIndex };
+    });
+  })()`);
+}
+
+/**
+ * Selector for the element found for the locator at `index` by resolveLocators.
+ * The marker attribute can't be queried inside shadow roots or iframes, so
+ * elements there keep the piercing selector that matched.
+ */
+export function getMatchSelector(locator: ElementLocator, match: LocatorMatch, index: number): string {
+  const candidate = locator.candidates[match.candidateIndex];
+  return candidate && isPiercingSelector(candidate.value) ? candidate.value : `[${MATCH_ATTRIBUTE}="${index}"]`;
+}
+
+/**
+ * Describe the elements that were found through a fallback or not at all,
+ * or null when every element matched its preferred locator
+ */
+export function describeLocatorFallbacks(locators: ElementLocator[], matches: LocatorMatch[]): string | null {
+  const notes = matches.flatMap((match, index) => {
+    if (!match.strategy) {
+      return [`Element ${index + 1} was not found`];
+    }
+    if (match.candidateIndex === 0) {
+      return [];
+    }
+    const preferred = locators[index].candidates[0];
+    const reason = preferred ? ` (its ${STRATEGY_LABELS[preferred.strategy]} no longer matches)` : '';
+    return [`Element ${index + 1} was found by ${STRATEGY_LABELS[match.strategy]}${reason}`];
+  });
+  return notes.length > 0 ? `${notes.join('. ')}. Re-select the content to update it.` : null;
+}
+
+/**
+ * A working CSS selector for an element found through a fallback candidate, to
+ * replace its stored selector. XPath and fingerprint matches have none.
+ */
+export function getHealedSelector(locator: ElementLocator, match: LocatorMatch): string | null {
+  if (match.candidateIndex <= 0) {
+    return null;
+  }
+  const candidate = locator.candidates[match.candidateIndex];
+  return candidate.strategy === 'text' || candidate.strategy === 'xpath' ? null : candidate.value;
+}
+
+/**
+ * The locator with the candidate that found its element moved to the front, so
+ * the next capture tries it first, or null when the preferred candidate matched
+ */
+export function getHealedLocator(locator: ElementLocator, match: LocatorMatch): ElementLocator | null {
+  if (match.candidateIndex <= 0) {
+    return null;
+  }
+  const candidates = [...locator.candidates];
+  const [candidate] = candidates.splice(match.candidateIndex, 1);
+  return { ...locator, candidates: [candidate, ...candidates] };
+}
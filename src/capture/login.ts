@@ -0,0 +1,195 @@
+/**
+ * Login Steps
+ *
+ * Replays multi-page logins recorded in the credential picker: the username on
+ * one page, the password on the next, then maybe a "stay signed in?" prompt.
+ * Fills and clicks act like macro steps (see macro.ts), waiting for their
+ * element first; optional steps are skipped when their element doesn't show up.
+ * Also enters the two-factor code that single-form logins ask for afterwards,
+ * and tells whether a page shows a login form or the signed-in app.
+ */
+
+import type { WebContents } from 'electron';
+import type { LoginStep, LoginFillSource, MacroStep } from '../types/dashboard';
+import { runMacroStep } from './macro';
+import { waitForCondition, getReadyExpression } from './readiness';
+import { getAnySelectorVisibleExpression, getDeepQueryExpression } from './deep-query';
+import { generateTotp } from './totp';
+import type { CaptureCredentials } from './credentials';
+
+// How long an optional step waits for its element before it is skipped
+const OPTIONAL_STEP_TIMEOUT_MS = 5000;
+
+const VISIBLE_PASSWORD_FIELD_EXPRESSION = getAnySelectorVisibleExpression(['input[type="password"]']);
+
+/**
+ * A login step failed; the message names the step for the widget's error
+ */
+export class LoginStepError extends Error {
+  constructor(
+    readonly stepIndex: number,
+    reason: string
+  ) {
+    super(`Login step ${stepIndex + 1} failed: ${reason}`);
+    this.name = 'LoginStepError';
+  }
+}
+
+/**
+ * In-page expression that is truthy while the page shows the start of the
+ * login: the first required step's element, or its URL
+ */
+export function getLoginStartExpression(steps: LoginStep[]): string {
+  const first = steps.find((step) => !step.optional && (step.selector || step.url));
+  if (first?.selector) {
+    return getAnySelectorVisibleExpression([first.selector]);
+  }
+  if (first?.url) {
+    return `location.href.includes(${JSON.stringify(first.url)})`;
+  }
+  return 'false';
+}
+
+/**
+ * In-page expression that is truthy while the page shows a login form: the
+ * start of the credentials' login steps, or else any visible password field
+ */
+export function getLoginFormExpression(credentials: CaptureCredentials | undefined): string {
+  const loginSteps = credentials?.loginSteps ?? [];
+  return loginSteps.length > 0 ? getLoginStartExpression(loginSteps) : VISIBLE_PASSWORD_FIELD_EXPRESSION;
+}
+
+/**
+ * In-page expression for the credentials' own proof of a successful login,
+ * or null when none is set
+ */
+export function getLoginSuccessExpression(credentials: CaptureCredentials): string | null {
+  const checks: string[] = [];
+  if (credentials.successSelector) {
+    checks.push(getAnySelectorVisibleExpression([credentials.successSelector]));
+  }
+  if (credentials.successUrl) {
+    checks.push(`location.href.includes(${JSON.stringify(credentials.successUrl)})`);
+  }
+  return checks.length > 0 ? checks.map((check) => `(${check})`).join(' && ') : null;
+}
+
+/**
+ * Replay login steps, stopping at the first failing required step
+ */
+export async function runLoginSteps(
+  webContents: WebContents,
+  credentials: CaptureCredentials,
+  timeoutMs: number
+): Promise<void> {
+  const { loginSteps } = credentials;
+  for (let i = 0; i < loginSteps.length; i++) {
+    const step = loginSteps[i];
+    const error = await runLoginStep(
+      webContents,
+      step,
+      credentials,
+      step.optional ? OPTIONAL_STEP_TIMEOUT_MS : timeoutMs
+    );
+    if (error && !step.optional) {
+      throw new LoginStepError(i, error);
+    }
+  }
+}
+
+/**
+ * Enter the current TOTP code once the code field shows up after the password
+ * was submitted. Gives up quietly when `doneExpression` (the widget's content)
+ * shows up first, since remembered devices aren't asked for a code.
+ */
+export async function submitTotpCode(
+  webContents: WebContents,
+  credentials: CaptureCredentials,
+  doneExpression: string | null,
+  timeoutMs: number
+): Promise<void> {
+  const codeVisible = getAnySelectorVisibleExpression([credentials.totpSelector]);
+  const shown = await waitForCondition(
+    webContents,
+    doneExpression ? `(${codeVisible}) || (${doneExpression})` : codeVisible,
+    timeoutMs
+  );
+  if (!shown || !(await webContents.executeJavaScript(`!!(${codeVisible})`))) {
+    return;
+  }
+
+  const error = await runMacroStep(
+    webContents,
+    { type: 'type', selector: credentials.totpSelector, value: generateTotp(credentials.totpSecret) },
+    timeoutMs
+  );
+  if (error) {
+    console.warn('[Login] Failed to enter the two-factor code:', error);
+    return;
+  }
+
+  // Code pages rarely have a submit button worth picking: submit the field's form
+  // or press Enter in it (pages that submit on the last digit are already done)
+  await webContents
+    .executeJavaScript(
+      `(function() {
+        const el = ${getDeepQueryExpression(credentials.totpSelector)};
+        if (!el) return;
+        if (el.form) {
+          el.form.requestSubmit();
+          return;
+        }
+        for (const type of ['keydown', 'keypress', 'keyup']) {
+          el.dispatchEvent(new KeyboardEvent(type, { key: 'Enter', code: 'Enter', keyCode: 13, bubbles: true }));
+        }
+      })()`
+    )
+    .catch(() => undefined);
+}
+
+// Run one step. Returns why it failed, or null on success.
+async function runLoginStep(
+  webContents: WebContents,
+  step: LoginStep,
+  credentials: CaptureCredentials,
+  timeoutMs: number
+): Promise<string | null> {
+  switch (step.type) {
+    case 'fill':
+      if (step.fill === 'totp' && !credentials.totpSecret) {
+        return 'No two-factor secret saved with the credentials';
+      }
+      return runMacroStep(webContents, toMacroStep(step, credentials), timeoutMs);
+
+    case 'click':
+      return runMacroStep(webContents, toMacroStep(step, credentials), timeoutMs);
+
+    case 'wait-for-selector': {
+      const visible = getReadyExpression({ type: 'selector', selector: step.selector, timeoutMs });
+      if (!visible || !(await waitForCondition(webContents, visible, timeoutMs))) {
+        return `Element not found: ${step.selector ?? ''}`;
+      }
+      return null;
+    }
+
+    case 'wait-for-url': {
+      const matches = `location.href.includes(${JSON.stringify(step.url ?? '')})`;
+      return (await waitForCondition(webContents, matches, timeoutMs)) ? null : `URL never matched: ${step.url ?? ''}`;
+    }
+  }
+}
+
+// Fill steps refer to the username and password rather than containing them
+function toMacroStep(step: LoginStep, credentials: CaptureCredentials): MacroStep {
+  if (step.type === 'click') {
+    return { type: 'click', selector: step.selector };
+  }
+  const values: Record<LoginFillSource, string | undefined> = {
+    username: credentials.username,
+    password: credentials.password,
+    // Generated when the step runs, so it's fresh even after slow steps
+    totp: step.fill === 'totp' ? generateTotp(credentials.totpSecret) : undefined,
+    text: step.value,
+  };
+  return { type: 'type', selector: step.selector, value: values[step.fill ?? 'username'] ?? '' };
+}
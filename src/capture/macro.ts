@@ -0,0 +1,145 @@
+/**
+ * Interaction Macros
+ *
+ * Replays the clicks, typing and waits recorded in the picker so the capture
+ * window reaches the right view (a project picked in a dropdown, a panel
+ * expanded, a date range selected) before the selection is captured. Each
+ * step waits for its element to be rendered before acting on it.
+ */
+
+import type { WebContents } from 'electron';
+import type { MacroStep, MacroStepResult } from '../types/dashboard';
+import { waitForCondition, waitForFrame, getReadyExpression } from './readiness';
+import { getDeepQueryExpression } from './deep-query';
+
+// Width of the page thumbnails taken after each step by the debugger
+const THUMBNAIL_WIDTH = 480;
+
+/**
+ * A macro step failed; the message names the step for the widget's error
+ */
+export class MacroStepError extends Error {
+  constructor(
+    readonly stepIndex: number,
+    reason: string
+  ) {
+    super(`Macro step ${stepIndex + 1} failed: ${reason}`);
+    this.name = 'MacroStepError';
+  }
+}
+
+/**
+ * Replay a macro, stopping at the first failing step
+ */
+export async function runMacro(webContents: WebContents, steps: MacroStep[], timeoutMs: number): Promise<void> {
+  for (let i = 0; i < steps.length; i++) {
+    const error = await runMacroStep(webContents, steps[i], timeoutMs);
+    if (error) {
+      throw new MacroStepError(i, error);
+    }
+  }
+}
+
+/**
+ * Replay a macro step by step for the editor's debugger, with a thumbnail of
+ * the page after each step. Steps after a failing one are skipped.
+ */
+export async function debugMacro(
+  webContents: WebContents,
+  steps: MacroStep[],
+  timeoutMs: number
+): Promise<MacroStepResult[]> {
+  const results: MacroStepResult[] = [];
+  let failed = false;
+
+  for (const step of steps) {
+    if (failed) {
+      results.push({ status: 'skipped', error: null, durationMs: 0, image: null });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    const error = await runMacroStep(webContents, step, timeoutMs);
+    const durationMs = Date.now() - startedAt;
+    const image = await webContents
+      .capturePage()
+      .then((page) => page.resize({ width: THUMBNAIL_WIDTH }).toDataURL())
+      .catch(() => null);
+
+    failed = error !== null;
+    results.push({ status: failed ? 'failed' : 'ok', error, durationMs, image });
+  }
+
+  return results;
+}
+
+/**
+ * Run one step. Returns why it failed, or null on success.
+ */
+export async function runMacroStep(webContents: WebContents, step: MacroStep, timeoutMs: number): Promise<string | null> {
+  if (step.type === 'wait') {
+    await new Promise((resolve) => setTimeout(resolve, step.delayMs ?? 0));
+    return null;
+  }
+
+  if (!step.selector) {
+    return 'No element selector';
+  }
+
+  const visible = getReadyExpression({ type: 'selector', selector: step.selector, timeoutMs });
+  if (!visible || !(await waitForCondition(webContents, visible, timeoutMs))) {
+    return `Element not found: ${step.selector}`;
+  }
+
+  try {
+    const error: string | null = await webContents.executeJavaScript(getStepScript(step));
+    if (error) {
+      return error;
+    }
+  } catch (error) {
+    // A click that navigates can tear down the page mid-script; the next step waits for its element
+    if (step.type !== 'click') {
+      return String(error);
+    }
+  }
+
+  await waitForFrame(webContents);
+  return null;
+}
+
+// In-page script performing a step on its element. Evaluates to an error message or null.
+function getStepScript(step: MacroStep): string {
+  const query = getDeepQueryExpression(step.selector ?? '');
+  const value = JSON.stringify(step.value ?? '');
+
+  if (step.type === 'click') {
+    return `(function() {
+      const el = ${query};
+      // Elements in iframes need that frame's window and event classes
+      const view = el.ownerDocument.defaultView;
+      el.scrollIntoView({ block: 'center' });
+      // Menus and dropdowns often open on pointer or mouse down rather than click
+      for (const type of ['pointerdown', 'mousedown', 'pointerup', 'mouseup']) {
+        const EventType = type.startsWith('pointer') ? view.PointerEvent : view.MouseEvent;
+        el.dispatchEvent(new EventType(type, { bubbles: true, cancelable: true, composed: true, view }));
+      }
+      el.click();
+      return null;
+    })()`;
+  }
+
+  // Typing and selecting set the value through the native setter so frameworks
+  // tracking the value (React) see the change, then fire input and change events
+  return `(function() {
+    const el = ${query};
+    const proto = Object.getPrototypeOf(el);
+    const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+    if (!setter) return 'Element does not accept a value';
+    el.focus();
+    setter.call(el, ${value});
+    ${step.type === 'select' ? `if (el.value !== ${value}) return 'Option not found: ' + ${value};` : ''}
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+    return null;
+  })()`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Page Readiness Detection
+ *
+ * Replaces fixed sleeps in the capture path with per-widget wait strategies:
+ * - selector:     wait until an element matching the selector is rendered
+ * - network-idle: wait until the page has loaded and stopped fetching resources
+ * - predicate:    wait until a custom JavaScript expression is truthy
+ * - delay:        wait a fixed number of milliseconds
+ *
+ * Every strategy has a timeout; when it expires the capture proceeds anyway.
+ */
+
+import type { WebContents } from 'electron';
+import type { WaitStrategy, ElementLocator } from '../types/dashboard';
+import { getLocatorReadyExpression } from './locators';
+import { getDeepQueryExpression, getAnySelectorVisibleExpression, isPiercingSelector } from './deep-query';
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 15000;
+const POLL_INTERVAL_MS = 100;
+// The page counts as network idle once no new resources finished loading for this long
+const NETWORK_IDLE_QUIET_MS = 500;
+// Upper bound for waiting on a painted frame after scrolling
+const FRAME_TIMEOUT_MS = 250;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fill in defaults for a widget's wait strategy.
+ * Widgets without one wait for their own CSS selectors (or any of their
+ * fallback locators), or for network idle when they capture a crop region.
+ */
+export function resolveWaitStrategy(
+  strategy: WaitStrategy | null,
+  selectors?: string[],
+  locators?: ElementLocator[]
+): WaitStrategy {
+  const defaultSelector = selectors && selectors.length > 0 ? selectors.join(', ') : undefined;
+  const waitsForOwnSelectors = !strategy || (strategy.type === 'selector' && !strategy.selector?.trim());
+
+  if (waitsForOwnSelectors && locators && locators.length > 0) {
+    return {
+      type: 'predicate',
+      script: getLocatorReadyExpression(locators),
+      timeoutMs: strategy?.timeoutMs || DEFAULT_WAIT_TIMEOUT_MS,
+    };
+  }
+  // Piercing selectors can't be joined into one selector list
+  if (waitsForOwnSelectors && selectors?.some(isPiercingSelector)) {
+    return {
+      type: 'predicate',
+      script: getAnySelectorVisibleExpression(selectors),
+      timeoutMs: strategy?.timeoutMs || DEFAULT_WAIT_TIMEOUT_MS,
+    };
+  }
+  if (strategy) {
+    return {
+      ...strategy,
+      // An empty selector means the widget's own selectors
+      selector: strategy.type === 'selector' ? strategy.selector?.trim() || defaultSelector : strategy.selector,
+      timeoutMs: strategy.timeoutMs || DEFAULT_WAIT_TIMEOUT_MS,
+    };
+  }
+  if (defaultSelector) {
+    return { type: 'selector', selector: defaultSelector, timeoutMs: DEFAULT_WAIT_TIMEOUT_MS };
+  }
+  return { type: 'network-idle', timeoutMs: DEFAULT_WAIT_TIMEOUT_MS };
+}
+
+/**
+ * Wait until the page is ready according to the strategy.
+ * Returns false if the timeout expired before the page was ready.
+ */
+export async function waitForPageReady(webContents: WebContents, strategy: WaitStrategy): Promise<boolean> {
+  switch (strategy.type) {
+    case 'delay':
+      await sleep(strategy.delayMs ?? 0);
+      return true;
+    case 'network-idle':
+      return waitForNetworkIdle(webContents, strategy.timeoutMs);
+    default: {
+      const expression = getReadyExpression(strategy);
+      return expression ? waitForCondition(webContents, expression, strategy.timeoutMs) : true;
+    }
+  }
+}
+
+/**
+ * In-page expression that is truthy once the page is ready, for strategies
+ * that can be checked with a single evaluation (selector and predicate)
+ */
+export function getReadyExpression(strategy: WaitStrategy): string | null {
+  if (strategy.type === 'selector' && strategy.selector) {
+    return `(() => {
+      const el = ${getDeepQueryExpression(strategy.selector)};
+      if (!el) return false;
+      const rect = el.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    })()`;
+  }
+  if (strategy.type === 'predicate' && strategy.script) {
+    return `(${strategy.script})`;
+  }
+  return null;
+}
+
+/**
+ * Poll an in-page expression until it is truthy or the timeout expires.
+ * Evaluation errors (e.g. while the page is navigating) count as not ready.
+ */
+export async function waitForCondition(
+  webContents: WebContents,
+  expression: string,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  const script = `(async () => !!(${expression}))()`;
+
+  for (;;) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0 || webContents.isDestroyed()) {
+      return false;
+    }
+
+    try {
+      // A navigation can leave executeJavaScript pending, so bound each evaluation
+      const ready = await Promise.race([
+        webContents.executeJavaScript(script) as Promise<boolean>,
+        sleep(remaining).then(() => false),
+      ]);
+      if (ready) {
+        return true;
+      }
+    } catch {
+      // Page is mid-navigation or the expression threw; try again
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Wait until the document has loaded and the number of finished resource
+ * requests has stopped changing
+ */
+async function waitForNetworkIdle(webContents: WebContents, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  let lastCount = -1;
+  let quietSince = Date.now();
+
+  while (Date.now() < deadline && !webContents.isDestroyed()) {
+    try {
+      // Bounded like in waitForCondition, since a navigation can leave the evaluation pending
+      const state = await Promise.race([
+        webContents.executeJavaScript(`(() => {
+          // The default buffer stops recording after 250 entries
+          performance.setResourceTimingBufferSize(10000);
+          return {
+            complete: document.readyState === 'complete',
+            count: performance.getEntriesByType('resource').length,
+          };
+        })()`) as Promise<{ complete: boolean; count: number }>,
+        sleep(deadline - Date.now()).then(() => null),
+      ]);
+      if (!state) {
+        return false;
+      }
+
+      const { complete, count } = state;
+      if (!complete || count !== lastCount) {
+        lastCount = count;
+        quietSince = Date.now();
+      } else if (Date.now() - quietSince >= NETWORK_IDLE_QUIET_MS) {
+        return true;
+      }
+    } catch {
+      // Page is mid-navigation; restart the quiet period
+      lastCount = -1;
+      quietSince = Date.now();
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  return false;
+}
+
+/**
+ * Wait for the next painted frame, e.g. after scrolling, so the capture
+ * reflects the new scroll position
+ */
+export async function waitForFrame(webContents: WebContents): Promise<void> {
+  try {
+    await webContents.executeJavaScript(`new Promise((resolve) => {
+      requestAnimationFrame(() => requestAnimationFrame(resolve));
+      setTimeout(resolve, ${FRAME_TIMEOUT_MS});
+    })`);
+  } catch {
+    // Ignore - capture proceeds with whatever is painted
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import type { Widget, WidgetRule } from '../types/dashboard';
+import { getRuleValue, getRuleStatus, detectRuleAlerts } from './rules';
+
+function rule(overrides: Partial<WidgetRule>): WidgetRule {
+  return { id: 'r1', metric: 'value', operator: '>', threshold: 100, color: 'red', notify: false, ...overrides };
+}
+
+function textWidget(rules: WidgetRule[]): Widget {
+  return {
+    selectorType: 'text',
+    selectorData: { selectors: ['#kpi'], parseNumber: true },
+    rules,
+  } as Widget;
+}
+
+describe('getRuleValue', () => {
+  it('parses the number of text widgets', () => {
+    expect(getRuleValue(textWidget([]), 'Total: 1,234')).toBe(1234);
+  });
+
+  it('is null without text or for other widgets', () => {
+    expect(getRuleValue(textWidget([]), null)).toBeNull();
+    expect(getRuleValue(textWidget([]), undefined)).toBeNull();
+    expect(getRuleValue(textWidget([]), 'n/a')).toBeNull();
+    expect(getRuleValue({ ...textWidget([]), selectorType: 'css' }, '42')).toBeNull();
+  });
+});
+
+describe('getRuleStatus', () => {
+  it.each([
+    ['>', 99, false],
+    ['>', 100, false],
+    ['>', 101, true],
+    ['>=', 99, false],
+    ['>=', 100, true],
+    ['<', 99, true],
+    ['<', 100, false],
+    ['<=', 100, true],
+    ['<=', 101, false],
+    ['=', 100, true],
+    ['=', 100.5, false],
+    ['!=', 100, false],
+    ['!=', 100.5, true],
+  ] as const)('%s 100 with a value of %d matches: %s', (operator, value, matches) => {
+    expect(getRuleStatus([rule({ operator })], value, null)).toBe(matches ? 'red' : null);
+  });
+
+  it('never matches a missing value', () => {
+    for (const operator of ['>', '>=', '<', '<=', '=', '!='] as const) {
+      expect(getRuleStatus([rule({ operator })], null, 50)).toBeNull();
+      expect(getRuleStatus([rule({ operator, metric: 'change', threshold: 0 })], null, 50)).toBeNull();
+    }
+  });
+
+  it('compares the absolute percentage change for change rules', () => {
+    const changeRule = rule({ metric: 'change', operator: '>=', threshold: 10 });
+    expect(getRuleStatus([changeRule], 110, 100)).toBe('red');
+    expect(getRuleStatus([changeRule], 90, 100)).toBe('red');
+    expect(getRuleStatus([changeRule], 109, 100)).toBeNull();
+  });
+
+  it('ignores change rules without a previous value or when it was 0', () => {
+    const changeRule = rule({ metric: 'change', operator: '>', threshold: 0 });
+    expect(getRuleStatus([changeRule], 100, null)).toBeNull();
+    expect(getRuleStatus([changeRule], 100, 0)).toBeNull();
+  });
+
+  it('picks the most severe colour among matching rules', () => {
+    const rules = [
+      rule({ operator: '>', threshold: 0, color: 'green' }),
+      rule({ operator: '>', threshold: 50, color: 'amber' }),
+      rule({ operator: '>', threshold: 100, color: 'red' }),
+      rule({ operator: '>', threshold: 0, color: null }),
+    ];
+    expect(getRuleStatus(rules, 75, null)).toBe('amber');
+    expect(getRuleStatus(rules, 150, null)).toBe('red');
+    expect(getRuleStatus(rules, -1, null)).toBeNull();
+  });
+});
+
+describe('detectRuleAlerts', () => {
+  it('notifies when a value rule starts matching', () => {
+    const widget = textWidget([rule({ notify: true })]);
+    const [alert] = detectRuleAlerts(widget, '150', '90');
+    expect(alert).toMatchObject({ kind: 'rule', changeRatio: null, previousText: '90', currentText: '150' });
+    expect(alert.message).toContain('> 100');
+  });
+
+  it('notifies on the first value that matches', () => {
+    expect(detectRuleAlerts(textWidget([rule({ notify: true })]), '150', null)).toHaveLength(1);
+  });
+
+  it("doesn't notify again while a value rule keeps matching", () => {
+    expect(detectRuleAlerts(textWidget([rule({ notify: true })]), '150', '120')).toEqual([]);
+  });
+
+  it('notifies on every capture a change rule matches', () => {
+    const widget = textWidget([rule({ metric: 'change', operator: '>', threshold: 10, notify: true })]);
+    expect(detectRuleAlerts(widget, '150', '120')).toHaveLength(1);
+    expect(detectRuleAlerts(widget, '125', '120')).toEqual([]);
+  });
+
+  it('skips rules without notify, and captures without a number', () => {
+    expect(detectRuleAlerts(textWidget([rule({ notify: false })]), '150', '90')).toEqual([]);
+    expect(detectRuleAlerts(textWidget([rule({ notify: true })]), 'n/a', '90')).toEqual([]);
+    expect(detectRuleAlerts(textWidget([rule({ notify: true })]), null, null)).toEqual([]);
+  });
+});
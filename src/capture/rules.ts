@@ -0,0 +1,99 @@
+/**
+ * Threshold Rules
+ *
+ * Evaluates a text widget's rules against the number parsed from each capture.
+ * Matching rules colour the widget header, and rules with notify on raise an
+ * alert when they start matching (for 'change' rules: on every matching capture).
+ */
+
+import type { Widget, WidgetRule, RuleColor, TextSelectorData } from '../types/dashboard';
+import type { DetectedChange } from './alerts';
+import { parseExtractedNumber } from './extract';
+
+// Most severe first
+const COLOR_SEVERITY: RuleColor[] = ['red', 'amber', 'green'];
+
+/**
+ * Parse a widget's number from captured text. Null for non-text widgets or when nothing matched.
+ */
+export function getRuleValue(widget: Widget, text: string | null | undefined): number | null {
+  if (widget.selectorType !== 'text' || text === null || text === undefined) {
+    return null;
+  }
+  return parseExtractedNumber(text, widget.selectorData as TextSelectorData);
+}
+
+/**
+ * Colour of the most severe matching rule, or null when none with a colour match
+ */
+export function getRuleStatus(rules: WidgetRule[], value: number | null, previousValue: number | null): RuleColor | null {
+  const colors = new Set(
+    rules.filter((rule) => rule.color && matchesRule(rule, value, previousValue)).map((rule) => rule.color)
+  );
+  return COLOR_SEVERITY.find((color) => colors.has(color)) ?? null;
+}
+
+/**
+ * Alerts for notify rules that fire on this capture. 'value' rules only fire
+ * when they didn't already match the previous value, so a value that stays
+ * above a threshold doesn't notify on every refresh.
+ */
+export function detectRuleAlerts(widget: Widget, text: string | null, previousText: string | null): DetectedChange[] {
+  const value = getRuleValue(widget, text);
+  const previousValue = getRuleValue(widget, previousText);
+
+  return widget.rules
+    .filter((rule) => rule.notify && matchesRule(rule, value, previousValue))
+    .filter((rule) => rule.metric === 'change' || previousValue === null || !compare(previousValue, rule))
+    .map((rule) => ({
+      kind: 'rule' as const,
+      message: describeMatch(rule, value!, previousValue),
+      changeRatio: null,
+      previousText,
+      currentText: text,
+    }));
+}
+
+function matchesRule(rule: WidgetRule, value: number | null, previousValue: number | null): boolean {
+  if (value === null) {
+    return false;
+  }
+  if (rule.metric === 'value') {
+    return compare(value, rule);
+  }
+  const change = getPercentChange(value, previousValue);
+  return change !== null && compare(change, rule);
+}
+
+function compare(actual: number, rule: WidgetRule): boolean {
+  switch (rule.operator) {
+    case '>':
+      return actual > rule.threshold;
+    case '>=':
+      return actual >= rule.threshold;
+    case '<':
+      return actual < rule.threshold;
+    case '<=':
+      return actual <= rule.threshold;
+    case '=':
+      return actual === rule.threshold;
+    case '!=':
+      return actual !== rule.threshold;
+  }
+}
+
+// Absolute percentage change; null without a previous value or when it was 0
+function getPercentChange(value: number, previousValue: number | null): number | null {
+  if (previousValue === null || previousValue === 0) {
+    return null;
+  }
+  return (Math.abs(value - previousValue) / Math.abs(previousValue)) * 100;
+}
+
+function describeMatch(rule: WidgetRule, value: number, previousValue: number | null): string {
+  if (rule.metric === 'value') {
+    return `Value ${value.toLocaleString()} ${rule.operator} ${rule.threshold.toLocaleString()}`;
+  }
+  const change = getPercentChange(value, previousValue)!;
+  return `Value changed by ${change.toFixed(1)}% (${previousValue!.toLocaleString()} → ${value.toLocaleString()})`;
+}
@@ -0,0 +1,530 @@
+/**
+ * Capture Scheduler
+ *
+ * Owns the refresh timers for every widget and runs captures through a
+ * bounded pool of workers. Requests beyond the pool size are queued, and
+ * results are pushed to the renderer as events:
+ * - capture:status   - a widget was queued, started capturing, or went idle
+ * - capture:result   - a capture finished (successfully or not)
+ * - capture:schedule - a widget's next due time or paused state changed
+ * - alerts:new        - change detection or a threshold rule recorded an alert for a widget
+ * - session:status   - a capture found a session partition signed in or logged out
+ *
+ * Each widget has a single one-shot timer that is re-armed when a capture
+ * finishes, so manual refreshes reset the countdown and a widget is never
+ * captured twice for the same tick.
+ *
+ * Successful captures are persisted by the snapshot store, so after a restart
+ * the last image is served immediately and the first refresh is timed from
+ * when that image was taken.
+ */
+
+import type { BrowserWindow } from 'electron';
+import { getDatabase } from '../database/connection';
+import { widgetFromRow } from '../types/dashboard';
+import type {
+  Widget,
+  WidgetRow,
+  WidgetSchedule,
+  WidgetSnapshot,
+  CssSelectorData,
+  CropSelectorData,
+  TextSelectorData,
+  CaptureResult,
+  CaptureState,
+  MacroStep,
+  MacroStepResult,
+  LocatorMatch,
+} from '../types/dashboard';
+import {
+  captureWidgetScreenshot,
+  debugWidgetMacro,
+  CaptureError,
+  type CaptureOutput,
+  type ScreenshotCaptureRequest,
+} from './screenshot';
+import { MacroStepError } from './macro';
+import { LoginStepError } from './login';
+import { describeLocatorFallbacks, getHealedLocator, getHealedSelector } from './locators';
+import { loadCaptureCredentials } from './credentials';
+import { resolveWaitStrategy } from './readiness';
+import { saveSnapshot, listSnapshots, getLatestSnapshot, readSnapshotDataUrl, pruneAllSnapshots } from './snapshots';
+import { detectChange, recordAlert, showAlertNotification, type DetectedChange } from './alerts';
+import { getRuleValue, getRuleStatus, detectRuleAlerts } from './rules';
+import { recordWidgetValue } from './values';
+import { recordSessionResult } from './sessions';
+
+// Settings key for the maximum number of captures running at once
+export const CAPTURE_CONCURRENCY_SETTING = 'captureConcurrency';
+export const DEFAULT_CAPTURE_CONCURRENCY = 2;
+export const MAX_CAPTURE_CONCURRENCY = 8;
+
+let getTargetWindow: () => BrowserWindow | null = () => null;
+
+interface ScheduleEntry {
+  timer: ReturnType<typeof setTimeout> | null;
+  intervalMs: number;
+  nextDueAt: number | null;
+  paused: boolean;
+}
+
+const schedules = new Map<string, ScheduleEntry>();
+const queue: string[] = [];
+const running = new Set<string>();
+const latestResults = new Map<string, CaptureResult>();
+
+/**
+ * Start the scheduler and create timers for every widget in the database
+ */
+export function startCaptureScheduler(getWindow: () => BrowserWindow | null): void {
+  getTargetWindow = getWindow;
+  rescheduleAllWidgets();
+}
+
+/**
+ * Stop all timers and drop any queued captures
+ */
+export function stopCaptureScheduler(): void {
+  for (const entry of schedules.values()) {
+    if (entry.timer) clearTimeout(entry.timer);
+  }
+  schedules.clear();
+  queue.length = 0;
+}
+
+/**
+ * Rebuild timers from the database (e.g. after switching databases)
+ */
+export function rescheduleAllWidgets(): void {
+  stopCaptureScheduler();
+  latestResults.clear();
+  // Age-based retention also has to expire history of widgets that no longer capture
+  pruneAllSnapshots();
+
+  const rows = getDatabase().prepare('SELECT * FROM widgets').all() as WidgetRow[];
+  for (const row of rows) {
+    setWidgetTimer(widgetFromRow(row));
+  }
+}
+
+/**
+ * Re-apply timers for every widget on a dashboard (e.g. after pausing the dashboard)
+ */
+export function scheduleDashboard(dashboardId: string): void {
+  const rows = getDatabase().prepare('SELECT * FROM widgets WHERE dashboard_id = ?').all(dashboardId) as WidgetRow[];
+  for (const row of rows) {
+    setWidgetTimer(widgetFromRow(row));
+  }
+}
+
+/**
+ * Create or replace the refresh timer for a widget after it was created or updated
+ */
+export function scheduleWidget(widgetId: string): void {
+  const row = getDatabase().prepare('SELECT * FROM widgets WHERE id = ?').get(widgetId) as WidgetRow | undefined;
+  if (!row) {
+    unscheduleWidget(widgetId);
+    return;
+  }
+  setWidgetTimer(widgetFromRow(row));
+}
+
+/**
+ * Remove a widget's timer, queued capture and cached result
+ */
+export function unscheduleWidget(widgetId: string): void {
+  const entry = schedules.get(widgetId);
+  if (entry?.timer) {
+    clearTimeout(entry.timer);
+  }
+  schedules.delete(widgetId);
+  const queuedIndex = queue.indexOf(widgetId);
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
+  }
+  latestResults.delete(widgetId);
+}
+
+/**
+ * Queue a capture for a widget. No-op if one is already queued or running,
+ * so each widget is captured at most once at a time.
+ */
+export function requestCapture(widgetId: string): void {
+  if (running.has(widgetId) || queue.includes(widgetId)) {
+    return;
+  }
+  queue.push(widgetId);
+  emitStatus(widgetId, 'queued');
+  pump();
+}
+
+/**
+ * Queue a capture for every widget in a session partition (e.g. after the
+ * user signed in to it again)
+ */
+export function requestPartitionCapture(partition: string): void {
+  const rows = getDatabase().prepare('SELECT id FROM widgets WHERE partition = ?').all(partition) as Pick<
+    WidgetRow,
+    'id'
+  >[];
+  for (const row of rows) {
+    requestCapture(row.id);
+  }
+}
+
+/**
+ * Get the most recent capture result for a widget, falling back to the
+ * snapshot stored on disk by a previous session
+ */
+export function getLatestCapture(widgetId: string): CaptureResult | null {
+  const cached = latestResults.get(widgetId);
+  if (cached) return cached;
+
+  const [snapshot, previous] = listSnapshots(widgetId);
+  const data = snapshot ? readSnapshotDataUrl(snapshot) : null;
+  if (!snapshot || !data) return null;
+
+  const row = getDatabase().prepare('SELECT * FROM widgets WHERE id = ?').get(widgetId) as WidgetRow | undefined;
+  if (!row) return null;
+
+  const result = toCaptureResult(widgetFromRow(row), data, snapshot.text, snapshot.capturedAt, previous?.text ?? null);
+  latestResults.set(widgetId, result);
+  return result;
+}
+
+/**
+ * Get the current capture state for a widget
+ */
+export function getCaptureState(widgetId: string): CaptureState {
+  if (running.has(widgetId)) return 'capturing';
+  if (queue.includes(widgetId)) return 'queued';
+  return 'idle';
+}
+
+/**
+ * Get when a widget will next be captured automatically
+ */
+export function getWidgetSchedule(widgetId: string): WidgetSchedule {
+  const entry = schedules.get(widgetId);
+  return {
+    widgetId,
+    nextDueAt: entry?.nextDueAt ?? null,
+    paused: entry?.paused ?? false,
+  };
+}
+
+/**
+ * Replay a macro (the widget's, or unsaved steps from the editor) on the
+ * widget's page and report each step's outcome
+ */
+export async function debugMacro(widgetId: string, steps: MacroStep[]): Promise<MacroStepResult[]> {
+  const row = getDatabase().prepare('SELECT * FROM widgets WHERE id = ?').get(widgetId) as WidgetRow | undefined;
+  if (!row) {
+    throw new Error('Widget not found');
+  }
+  return debugWidgetMacro({ ...buildCaptureRequest(widgetFromRow(row)), macro: steps });
+}
+
+function setWidgetTimer(widget: Widget): void {
+  const dashboard = getDatabase()
+    .prepare('SELECT refresh_paused FROM dashboards WHERE id = ?')
+    .get(widget.dashboardId) as { refresh_paused: number } | undefined;
+
+  const previous = schedules.get(widget.id);
+  if (previous?.timer) {
+    clearTimeout(previous.timer);
+  }
+
+  const entry: ScheduleEntry = {
+    timer: null,
+    intervalMs: widget.refreshInterval * 1000,
+    nextDueAt: null,
+    paused: widget.refreshPaused || dashboard?.refresh_paused === 1,
+  };
+  schedules.set(widget.id, entry);
+
+  // Keep the running countdown when unrelated settings (name, zoom, ...) change
+  const keepDueTime =
+    previous && !previous.paused && previous.intervalMs === entry.intervalMs && previous.nextDueAt !== null;
+  if (keepDueTime) {
+    armTimer(widget.id, previous.nextDueAt!);
+    return;
+  }
+
+  // On first schedule, count from the stored snapshot so stale widgets refresh right away
+  const lastCapturedAt = previous ? null : getLatestSnapshot(widget.id)?.capturedAt;
+  armTimer(widget.id, (lastCapturedAt ?? Date.now()) + entry.intervalMs);
+}
+
+// Start the one-shot timer for a widget's next capture
+function armTimer(widgetId: string, dueAt: number): void {
+  const entry = schedules.get(widgetId);
+  if (!entry) return;
+
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+    entry.timer = null;
+  }
+
+  if (entry.paused || entry.intervalMs <= 0) {
+    entry.nextDueAt = null;
+  } else {
+    entry.nextDueAt = dueAt;
+    entry.timer = setTimeout(
+      () => {
+        entry.timer = null;
+        requestCapture(widgetId);
+      },
+      Math.max(0, dueAt - Date.now())
+    );
+  }
+
+  emitSchedule(widgetId);
+}
+
+function getConcurrency(): number {
+  try {
+    const row = getDatabase()
+      .prepare('SELECT value FROM settings WHERE key = ?')
+      .get(CAPTURE_CONCURRENCY_SETTING) as { value: string } | undefined;
+    const value = Number(row?.value);
+    if (Number.isInteger(value) && value > 0) {
+      return Math.min(value, MAX_CAPTURE_CONCURRENCY);
+    }
+  } catch (error) {
+    console.error('[Scheduler] Failed to read concurrency setting:', error);
+  }
+  return DEFAULT_CAPTURE_CONCURRENCY;
+}
+
+// Start queued captures until the worker pool is full
+function pump(): void {
+  const concurrency = getConcurrency();
+  while (running.size < concurrency && queue.length > 0) {
+    const widgetId = queue.shift()!;
+    running.add(widgetId);
+    runCapture(widgetId).finally(() => {
+      running.delete(widgetId);
+      emitStatus(widgetId, 'idle');
+      // Count the next interval from now, whether this capture was timed or manual
+      const entry = schedules.get(widgetId);
+      if (entry) {
+        armTimer(widgetId, Date.now() + entry.intervalMs);
+      }
+      pump();
+    });
+  }
+}
+
+async function runCapture(widgetId: string): Promise<void> {
+  emitStatus(widgetId, 'capturing');
+
+  let result: CaptureResult;
+  let widget: Widget | null = null;
+  try {
+    const row = getDatabase().prepare('SELECT * FROM widgets WHERE id = ?').get(widgetId) as WidgetRow | undefined;
+    if (!row) {
+      // Widget was deleted while queued
+      return;
+    }
+
+    widget = widgetFromRow(row);
+    const previous = getLatestSnapshot(widgetId);
+    const output = await captureWidgetScreenshot(buildCaptureRequest(widget));
+    const capturedAt = Date.now();
+    if (output) {
+      handleCaptureOutput(widget, previous, output, capturedAt);
+    }
+    result = output
+      ? {
+          ...toCaptureResult(widget, output.image.toDataURL(), output.text, capturedAt, previous?.text ?? null),
+          locatorWarning: output.locatorMatches ? handleLocatorMatches(widget, output.locatorMatches) : null,
+        }
+      : {
+          widgetId,
+          success: false,
+          error: { code: 'CAPTURE_FAILED', message: 'Failed to capture screenshot' },
+          capturedAt: Date.now(),
+        };
+  } catch (error) {
+    result = {
+      widgetId,
+      success: false,
+      error:
+        error instanceof CaptureError
+          ? { code: error.code, message: error.message }
+          : error instanceof MacroStepError
+            ? { code: 'MACRO_FAILED', message: error.message }
+            : error instanceof LoginStepError
+              ? { code: 'AUTH_FAILED', message: error.message }
+              : { code: 'CAPTURE_ERROR', message: String(error) },
+      capturedAt: Date.now(),
+    };
+  }
+
+  // Keep the last good image around so a failed refresh doesn't blank the widget
+  if (result.success || !getLatestCapture(widgetId)) {
+    latestResults.set(widgetId, result);
+  }
+  getTargetWindow()?.webContents.send('capture:result', result);
+
+  if (widget) {
+    const session = recordSessionResult(widget.partition, result, widget.hasCredentials);
+    if (session) {
+      getTargetWindow()?.webContents.send('session:status', session);
+    }
+  }
+}
+
+function toCaptureResult(
+  widget: Widget,
+  data: string,
+  text: string | null,
+  capturedAt: number,
+  previousText: string | null
+): CaptureResult {
+  const result: CaptureResult = { widgetId: widget.id, success: true, data, capturedAt };
+  if (text !== null) {
+    result.text = text;
+    if (widget.selectorType === 'text') {
+      result.value = getRuleValue(widget, text);
+      result.ruleStatus = getRuleStatus(widget.rules, result.value, getRuleValue(widget, previousText));
+    }
+  }
+  return result;
+}
+
+// Store the snapshot and check for changes. Failures here shouldn't discard the capture itself.
+function handleCaptureOutput(
+  widget: Widget,
+  previous: WidgetSnapshot | null,
+  output: CaptureOutput,
+  capturedAt: number
+): void {
+  const changes: DetectedChange[] = [];
+  try {
+    // Compare before saving, since retention may prune the previous snapshot
+    const change = detectChange(widget, previous, output.image, output.text);
+    if (change) changes.push(change);
+  } catch (error) {
+    console.error('[Scheduler] Failed to compare with previous snapshot:', error);
+  }
+  changes.push(...detectRuleAlerts(widget, output.text, previous?.text ?? null));
+
+  let snapshotId: string | null = null;
+  try {
+    snapshotId = saveSnapshot(widget.id, output.image, capturedAt, output.text).id;
+  } catch (error) {
+    console.error('[Scheduler] Failed to save snapshot:', error);
+  }
+
+  const value = getRuleValue(widget, output.text);
+  if (value !== null) {
+    try {
+      recordWidgetValue(widget.id, value, capturedAt);
+    } catch (error) {
+      console.error('[Scheduler] Failed to record value:', error);
+    }
+  }
+
+  for (const change of changes) {
+    try {
+      const alert = recordAlert(widget, change, snapshotId);
+      showAlertNotification(alert, getTargetWindow());
+      getTargetWindow()?.webContents.send('alerts:new', alert);
+    } catch (error) {
+      console.error('[Scheduler] Failed to record alert:', error);
+    }
+  }
+}
+
+/**
+ * Store working selectors for elements that were found through a fallback
+ * candidate, with that candidate first in their locator so the capture
+ * resolves them through it, and describe the fallbacks for the widget's warning
+ */
+function handleLocatorMatches(widget: Widget, matches: LocatorMatch[]): string | null {
+  if (widget.selectorType === 'crop') {
+    // Anchors are found through their candidates directly, so there's no selector to heal
+    const { anchor } = widget.selectorData as CropSelectorData;
+    const warning = anchor ? describeLocatorFallbacks([anchor.locator], matches) : null;
+    if (warning) {
+      console.warn(`[Scheduler] Widget ${widget.id}: crop anchor: ${warning}`);
+    }
+    return warning && `Crop anchor: ${warning}`;
+  }
+
+  const selectorData = widget.selectorData as CssSelectorData | TextSelectorData;
+  const locators = selectorData.locators ?? [];
+  const warning = describeLocatorFallbacks(locators, matches);
+  if (!warning) {
+    return null;
+  }
+  console.warn(`[Scheduler] Widget ${widget.id}: ${warning}`);
+
+  const selectors = selectorData.selectors.map(
+    (selector, i) => (matches[i] && getHealedSelector(locators[i], matches[i])) || selector
+  );
+  const healedLocators = locators.map(
+    (locator, i) => (matches[i] && getHealedLocator(locator, matches[i])) || locator
+  );
+  if (healedLocators.some((locator, i) => locator !== locators[i])) {
+    try {
+      getDatabase()
+        .prepare('UPDATE widgets SET selector_data = ? WHERE id = ?')
+        .run(JSON.stringify({ ...selectorData, selectors, locators: healedLocators }), widget.id);
+    } catch (error) {
+      console.error('[Scheduler] Failed to update healed selectors:', error);
+    }
+  }
+  return warning;
+}
+
+function buildCaptureRequest(widget: Widget): ScreenshotCaptureRequest {
+  let selectorData: ScreenshotCaptureRequest['selectorData'];
+
+  if (widget.selectorType === 'css' || widget.selectorType === 'text') {
+    const cssData = widget.selectorData as CssSelectorData | TextSelectorData;
+    selectorData = { selectors: cssData.selectors, locators: cssData.locators };
+    if (widget.selectorType === 'css') {
+      selectorData.layout = (cssData as CssSelectorData).layout;
+      selectorData.padding = (cssData as CssSelectorData).padding;
+    }
+  } else {
+    const cropData = widget.selectorData as CropSelectorData;
+    selectorData = {
+      x: cropData.x,
+      y: cropData.y,
+      width: cropData.width,
+      height: cropData.height,
+      scrollX: cropData.scrollX,
+      scrollY: cropData.scrollY,
+      anchor: cropData.anchor,
+      // Default wait for anchored regions is their anchor element
+      locators: cropData.anchor ? [cropData.anchor.locator] : undefined,
+    };
+  }
+
+  return {
+    url: widget.url,
+    partition: widget.partition,
+    viewport: widget.viewport,
+    selectorType: widget.selectorType,
+    selectorData,
+    captureOptions: widget.captureOptions,
+    preCaptureCss: widget.preCaptureCss,
+    preCaptureJs: widget.preCaptureJs,
+    hiddenSelectors: widget.hiddenSelectors,
+    macro: widget.macro,
+    waitStrategy: resolveWaitStrategy(widget.waitStrategy, selectorData.selectors, selectorData.locators),
+    credentials: loadCaptureCredentials(widget),
+  };
+}
+
+function emitStatus(widgetId: string, state: CaptureState): void {
+  getTargetWindow()?.webContents.send('capture:status', { widgetId, state });
+}
+
+function emitSchedule(widgetId: string): void {
+  getTargetWindow()?.webContents.send('capture:schedule', getWidgetSchedule(widgetId));
+}
@@ -0,0 +1,581 @@
+/**
+ * Widget Screenshot Capture
+ *
+ * Loads a widget's page in a pooled hidden window, logs in if needed, brings
+ * the page to the widget's view, and captures the selected elements or crop
+ * region as an image.
+ */
+
+import type { BrowserWindow, NativeImage } from 'electron';
+import type {
+  SelectorType,
+  WaitStrategy,
+  CompositeLayout,
+  CaptureOptions,
+  WidgetViewport,
+  MacroStep,
+  MacroStepResult,
+  ElementLocator,
+  LocatorMatch,
+  CropAnchor,
+  LoginStep,
+  CaptureErrorCode,
+} from '../types/dashboard';
+import { acquireCaptureWindow, releaseCaptureWindow } from './window-pool';
+import { waitForPageReady, waitForCondition, waitForFrame, getReadyExpression } from './readiness';
+import { composeImages, type CompositePart } from './compose';
+import { runMacro, debugMacro, MacroStepError } from './macro';
+import {
+  runLoginSteps,
+  getLoginStartExpression,
+  getLoginFormExpression,
+  getLoginSuccessExpression,
+  submitTotpCode,
+  LoginStepError,
+} from './login';
+import { resolveLocators, getMatchSelector } from './locators';
+import { DEEP_QUERY_SOURCE, VIEWPORT_RECT_SOURCE } from '../shared/page-scripts';
+import { isPiercingSelector } from './deep-query';
+
+// Screenshot capture data - captured in the same viewport as the picker for consistency
+export interface ScreenshotCaptureRequest {
+  url: string;
+  partition: string;
+  viewport: WidgetViewport;
+  selectorType: SelectorType;
+  selectorData: {
+    selectors?: string[];
+    locators?: ElementLocator[];
+    layout?: CompositeLayout;
+    padding?: number;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    scrollX?: number;
+    scrollY?: number;
+    anchor?: CropAnchor;
+  };
+  captureOptions: CaptureOptions;
+  // Injected before the selection is resolved (cookie banners, modals, tabs...)
+  preCaptureCss: string | null;
+  preCaptureJs: string | null;
+  // Set to visibility:hidden before capture (marked in the picker's hide mode)
+  hiddenSelectors: string[];
+  // Interactions replayed before the pre-capture hooks (see macro.ts)
+  macro: MacroStep[];
+  // Resolved wait strategy (see resolveWaitStrategy)
+  waitStrategy: WaitStrategy;
+  credentials?: {
+    username: string;
+    password: string;
+    loginUrl: string;
+    usernameSelector: string;
+    passwordSelector: string;
+    submitSelector: string;
+    // Multi-page login replacing the selectors above when not empty (see login.ts)
+    loginSteps: LoginStep[];
+    // Two-factor code entered after the password ('' without 2FA)
+    totpSecret: string;
+    totpSelector: string;
+    // Checked after logging in, on top of the login form going away ('' to skip)
+    successSelector: string;
+    successUrl: string;
+  };
+}
+
+export interface CaptureOutput {
+  image: NativeImage;
+  // Text content of the selected elements (css and text widgets)
+  text: string | null;
+  // How each selected element was found, for widgets with fallback locators
+  locatorMatches: LocatorMatch[] | null;
+}
+
+/**
+ * A capture that failed for a known reason (see CaptureErrorCode)
+ */
+export class CaptureError extends Error {
+  constructor(
+    readonly code: CaptureErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+// How long to wait for a login form to be submitted and replaced by the app
+const LOGIN_TIMEOUT_MS = 15000;
+// How long a page may take to load before the capture gives up
+const PAGE_LOAD_TIMEOUT_MS = 30000;
+// How long a pre-capture script (or the promise it returns) may take
+const PRE_CAPTURE_SCRIPT_TIMEOUT_MS = 10000;
+
+const PASSWORD_FIELD_EXPRESSION = `document.querySelector('input[type="password"]')`;
+
+// Capture a widget screenshot in a pooled window for the widget's partition
+// Pooled windows use the same viewport as the picker so crop coordinates match exactly
+export const captureWidgetScreenshot = async (request: ScreenshotCaptureRequest): Promise<CaptureOutput | null> => {
+  const { viewport } = request;
+  const pooled = acquireCaptureWindow(request.partition, viewport);
+  const captureWindow = pooled.window;
+  let failed = false;
+
+  try {
+    await loadWidgetPage(captureWindow, request);
+
+    if (request.macro.length > 0) {
+      await runMacro(captureWindow.webContents, request.macro, request.waitStrategy.timeoutMs);
+      // The widget's own wait strategy applies to the view the macro leads to
+      const ready = await waitForPageReady(captureWindow.webContents, request.waitStrategy);
+      if (!ready) {
+        console.warn(`[Screenshot] Timed out waiting for ${request.waitStrategy.type} after the macro, capturing anyway`);
+      }
+    }
+
+    await runPreCaptureHooks(captureWindow.webContents, request);
+
+    let captureRect: Electron.Rectangle | undefined;
+    let text: string | null = null;
+    let composite: NativeImage | null = null;
+    let locatorMatches: LocatorMatch[] | null = null;
+
+    const { fullPage, maxHeight } = request.captureOptions;
+
+    if (request.selectorType !== 'crop' && request.selectorData.selectors) {
+      let { selectors } = request.selectorData;
+      const { locators } = request.selectorData;
+      // Elements that no longer match their selector are found through the picker's fallback locators
+      if (locators && locators.length === selectors.length) {
+        const matches = await resolveLocators(captureWindow.webContents, locators);
+        selectors = selectors.map((selector, i) =>
+          matches[i].strategy ? getMatchSelector(locators[i], matches[i], i) : selector
+        );
+        locatorMatches = matches;
+      }
+
+      const texts: string[] = await captureWindow.webContents.executeJavaScript(`
+        (function() {
+          const query = ${DEEP_QUERY_SOURCE};
+          const selectors = ${JSON.stringify(selectors)};
+          // SVG and other non-HTML elements have no innerText
+          return selectors
+            .map(s => query(s))
+            .filter(Boolean)
+            .map(el => (el.innerText ?? el.textContent ?? '').trim());
+        })();
+      `);
+      if (texts.length === 0) {
+        await assertNotOnLoginPage(captureWindow.webContents, request);
+        throw new CaptureError('SELECTOR_NOT_FOUND', 'None of the selected elements are on the page');
+      }
+      text = texts.join('\n');
+
+      // Capture each selected element in turn, then compose them into one image
+      const parts: CompositePart[] = [];
+      for (const selector of fullPage ? [] : selectors) {
+        const part = await captureElement(captureWindow.webContents, viewport, selector, maxHeight);
+        if (part) parts.push(part);
+      }
+      if (parts.length > 0) {
+        composite = composeImages(
+          parts,
+          request.selectorData.layout ?? 'vertical',
+          request.selectorData.padding ?? 0
+        );
+      }
+    } else if (request.selectorType === 'crop' && request.selectorData.anchor && !fullPage) {
+      // Anchored crop regions move with their anchor element
+      const { anchor, width = 800, height = 600 } = request.selectorData;
+      const [match] = await resolveLocators(captureWindow.webContents, [anchor.locator]);
+      locatorMatches = [match];
+      const region = match.strategy
+        ? await getAnchoredRegion(captureWindow.webContents, getMatchSelector(anchor.locator, match, 0), anchor)
+        : null;
+      if (region) {
+        const part = await captureRegion(captureWindow.webContents, viewport, { ...region, width, height });
+        composite = part?.image ?? null;
+      }
+    }
+
+    // Crop regions and full pages have nothing to look for, so only a login form gives a failed login
+    // away. Public pages may well have a password field, so only check when the widget logs in.
+    if (request.credentials && (request.selectorType === 'crop' || fullPage)) {
+      await assertNotOnLoginPage(captureWindow.webContents, request);
+    }
+
+    // Crop regions without an anchor, or whose anchor is gone, use page coordinates
+    if (request.selectorType === 'crop' && !composite && !fullPage) {
+      // Scroll to crop position - these coordinates come from the picker at same dimensions
+      const { scrollX = 0, scrollY = 0, x = 0, y = 0, width = 800, height = 600 } = request.selectorData;
+
+      await captureWindow.webContents.executeJavaScript(
+        `window.scrollTo(${scrollX}, ${scrollY})`
+      );
+
+      await waitForFrame(captureWindow.webContents);
+
+      // Use the exact crop rectangle from the picker
+      captureRect = {
+        x: Math.max(0, x),
+        y: Math.max(0, y),
+        width: Math.min(width, viewport.width - x),
+        height: Math.min(height, viewport.height - y),
+      };
+    }
+
+    if (fullPage) {
+      composite = await captureFullPage(captureWindow.webContents, viewport, maxHeight);
+    }
+
+    // Capture the page (the whole viewport when no selected element could be captured)
+    const image = composite ?? (await captureWindow.webContents.capturePage(captureRect));
+    return { image, text, locatorMatches };
+  } catch (error) {
+    console.error('[Screenshot] Capture failed:', error);
+    failed = true;
+    // Macro and login failures name the failing step, so pass them on to the widget
+    if (error instanceof MacroStepError || error instanceof LoginStepError || error instanceof CaptureError) {
+      throw error;
+    }
+    return null;
+  } finally {
+    // Recycle the window after a failure since its page state can't be trusted
+    releaseCaptureWindow(pooled, { recycle: failed });
+  }
+};
+
+// Load a widget's page like a capture does, then replay its macro step by step
+// for the editor's debugger
+export const debugWidgetMacro = async (request: ScreenshotCaptureRequest): Promise<MacroStepResult[]> => {
+  const pooled = acquireCaptureWindow(request.partition, request.viewport);
+  try {
+    await loadWidgetPage(pooled.window, request);
+    return await debugMacro(pooled.window.webContents, request.macro, request.waitStrategy.timeoutMs);
+  } finally {
+    // The macro leaves the page in an arbitrary state
+    releaseCaptureWindow(pooled, { recycle: true });
+  }
+};
+
+// Navigate to the widget's page, log in when a login form shows up, and wait
+// until the page is ready. With a macro, the page only needs to finish loading
+// here: the widget's selectors may not exist until the macro has run.
+async function loadWidgetPage(captureWindow: BrowserWindow, request: ScreenshotCaptureRequest): Promise<void> {
+  const waitStrategy: WaitStrategy =
+    request.macro.length > 0 ? { type: 'network-idle', timeoutMs: request.waitStrategy.timeoutMs } : request.waitStrategy;
+
+  // Navigate the warm window in place
+  await navigate(captureWindow, request.url);
+
+  let pageReady = false;
+
+  // If credentials provided and we're on a login page, perform login
+  if (request.credentials) {
+    const { loginSteps } = request.credentials;
+    // Multi-page logins start with their first step's element, which may not be a password field
+    const loginExpression = loginSteps.length > 0 ? getLoginStartExpression(loginSteps) : PASSWORD_FIELD_EXPRESSION;
+
+    // Wait until either the login form or the widget content shows up
+    const readyExpression = getReadyExpression(waitStrategy);
+    if (readyExpression) {
+      await waitForCondition(
+        captureWindow.webContents,
+        `(${loginExpression}) || ${readyExpression}`,
+        waitStrategy.timeoutMs
+      );
+    } else {
+      pageReady = await waitForPageReady(captureWindow.webContents, waitStrategy);
+    }
+
+    const onLoginPage = await captureWindow.webContents.executeJavaScript(`!!(${loginExpression})`);
+
+    if (onLoginPage && loginSteps.length > 0) {
+      await runLoginSteps(captureWindow.webContents, request.credentials, waitStrategy.timeoutMs);
+    } else if (onLoginPage) {
+      // Perform auto-login
+      const { usernameSelector, passwordSelector, submitSelector, username, password } = request.credentials;
+
+      await captureWindow.webContents.executeJavaScript(`
+        (function() {
+          const usernameEl = document.querySelector(${JSON.stringify(usernameSelector)});
+          const passwordEl = document.querySelector(${JSON.stringify(passwordSelector)});
+          if (usernameEl) {
+            usernameEl.focus();
+            usernameEl.value = ${JSON.stringify(username)};
+            usernameEl.dispatchEvent(new Event('input', { bubbles: true }));
+          }
+          if (passwordEl) {
+            passwordEl.focus();
+            passwordEl.value = ${JSON.stringify(password)};
+            passwordEl.dispatchEvent(new Event('input', { bubbles: true }));
+          }
+        })();
+      `);
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      await captureWindow.webContents.executeJavaScript(`
+        (function() {
+          const submitEl = document.querySelector(${JSON.stringify(submitSelector)});
+          if (submitEl) submitEl.click();
+        })();
+      `);
+
+      // Two-factor code on the page after the password
+      const { totpSecret, totpSelector } = request.credentials;
+      if (totpSecret && totpSelector) {
+        await submitTotpCode(captureWindow.webContents, request.credentials, readyExpression, LOGIN_TIMEOUT_MS);
+      }
+    }
+
+    if (onLoginPage) {
+      // Wait for the login form to go away after submitting
+      const loggedIn = await waitForCondition(captureWindow.webContents, `!(${loginExpression})`, LOGIN_TIMEOUT_MS);
+      if (!loggedIn) {
+        throw new CaptureError('AUTH_FAILED', 'Still on the login page after signing in');
+      }
+      pageReady = false;
+
+      // Navigate to target URL if different from login
+      const currentUrl = captureWindow.webContents.getURL().toLowerCase();
+      const targetPath = new URL(request.url).pathname.toLowerCase();
+      const currentPath = new URL(currentUrl).pathname.toLowerCase();
+
+      if (targetPath && targetPath !== '/' && currentPath !== targetPath) {
+        await navigate(captureWindow, request.url);
+      }
+    }
+
+    const successExpression = getLoginSuccessExpression(request.credentials);
+    if (successExpression && !(await waitForCondition(captureWindow.webContents, successExpression, LOGIN_TIMEOUT_MS))) {
+      const { successSelector, successUrl } = request.credentials;
+      throw new CaptureError(
+        'AUTH_FAILED',
+        successSelector ? `Signed-in element ${successSelector} not found` : `Never reached ${successUrl} after signing in`
+      );
+    }
+  }
+
+  // Wait for SPA content to render
+  if (!pageReady) {
+    const ready = await waitForPageReady(captureWindow.webContents, waitStrategy);
+    if (!ready) {
+      console.warn(`[Screenshot] Timed out waiting for ${waitStrategy.type}, capturing anyway`);
+    }
+  }
+}
+
+/**
+ * Load a URL in a capture window, failing with TIMEOUT or NAVIGATION_ERROR
+ * when it doesn't load
+ */
+export async function navigate(captureWindow: BrowserWindow, url: string): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new CaptureError('TIMEOUT', `Page took longer than ${PAGE_LOAD_TIMEOUT_MS / 1000}s to load`)),
+      PAGE_LOAD_TIMEOUT_MS
+    );
+  });
+  try {
+    await Promise.race([captureWindow.loadURL(url), timeout]);
+  } catch (error) {
+    if (error instanceof CaptureError) {
+      throw error;
+    }
+    // Electron rejects with the network error, e.g. "ERR_NAME_NOT_RESOLVED (-105) loading 'https://...'"
+    throw new CaptureError('NAVIGATION_ERROR', error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Fail with AUTH_FAILED when the page shows a login form, including widgets
+// without credentials whose session expired
+async function assertNotOnLoginPage(webContents: Electron.WebContents, request: ScreenshotCaptureRequest): Promise<void> {
+  if (await webContents.executeJavaScript(`!!(${getLoginFormExpression(request.credentials)})`)) {
+    throw new CaptureError(
+      'AUTH_FAILED',
+      request.credentials ? 'Still on the login page, check the stored credentials' : 'The page asks to sign in'
+    );
+  }
+}
+
+// Inject the widget's pre-capture CSS and run its script. A failing or slow
+// script is logged and the capture goes ahead with whatever the page shows.
+async function runPreCaptureHooks(webContents: Electron.WebContents, request: ScreenshotCaptureRequest): Promise<void> {
+  if (request.preCaptureCss) {
+    try {
+      await webContents.insertCSS(request.preCaptureCss);
+    } catch (error) {
+      console.warn('[Screenshot] Failed to inject pre-capture CSS:', error);
+    }
+  }
+
+  if (request.hiddenSelectors.length > 0) {
+    // Page CSS can't reach into shadow roots or iframes, so hide those elements directly
+    const piercing = request.hiddenSelectors.filter(isPiercingSelector);
+    const plain = request.hiddenSelectors.filter((selector) => !isPiercingSelector(selector));
+    try {
+      if (plain.length > 0) {
+        await webContents.insertCSS(getHideCss(plain));
+      }
+      if (piercing.length > 0) {
+        await webContents.executeJavaScript(`
+          (function() {
+            const query = ${DEEP_QUERY_SOURCE};
+            for (const selector of ${JSON.stringify(piercing)}) {
+              query(selector)?.style.setProperty('visibility', 'hidden', 'important');
+            }
+          })();
+        `);
+      }
+    } catch (error) {
+      console.warn('[Screenshot] Failed to hide elements:', error);
+    }
+  }
+
+  if (request.preCaptureJs) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn('[Screenshot] Pre-capture script timed out, capturing anyway');
+        resolve();
+      }, PRE_CAPTURE_SCRIPT_TIMEOUT_MS);
+    });
+    try {
+      // Wrapped in an async function so the script can use await or return a promise to wait on
+      await Promise.race([webContents.executeJavaScript(`(async () => {\n${request.preCaptureJs}\n})()`), timeout]);
+    } catch (error) {
+      console.warn('[Screenshot] Pre-capture script failed:', error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  if (request.preCaptureCss || request.preCaptureJs || request.hiddenSelectors.length > 0) {
+    await waitForFrame(webContents);
+  }
+}
+
+// One rule per selector, so a selector that no longer parses doesn't void the others
+function getHideCss(selectors: string[]): string {
+  return selectors.map((selector) => `${selector} { visibility: hidden !important; }`).join('\n');
+}
+
+// Region of the page in document coordinates (CSS pixels)
+interface PageRegion {
+  pageX: number;
+  pageY: number;
+  width: number;
+  height: number;
+}
+
+// Capture a selected element, stitching it together if it's taller than the window.
+// Null when it isn't on the page.
+async function captureElement(
+  webContents: Electron.WebContents,
+  viewport: WidgetViewport,
+  selector: string,
+  maxHeight: number
+): Promise<CompositePart | null> {
+  const region: PageRegion | null = await webContents.executeJavaScript(`
+    (function() {
+      const element = (${DEEP_QUERY_SOURCE})(${JSON.stringify(selector)});
+      if (!element) return null;
+      // Relative to the top-level viewport for elements inside iframes
+      const rect = (${VIEWPORT_RECT_SOURCE})(element);
+      return {
+        pageX: Math.round(rect.x + window.scrollX),
+        pageY: Math.round(rect.y + window.scrollY),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      };
+    })();
+  `);
+  if (!region) return null;
+
+  return captureRegion(webContents, viewport, { ...region, height: Math.min(region.height, maxHeight) });
+}
+
+// Top-left of an anchored crop region in document coordinates, or null when
+// its anchor element isn't on the page
+async function getAnchoredRegion(
+  webContents: Electron.WebContents,
+  anchorSelector: string,
+  anchor: CropAnchor
+): Promise<Pick<PageRegion, 'pageX' | 'pageY'> | null> {
+  return webContents.executeJavaScript(`
+    (function() {
+      const element = (${DEEP_QUERY_SOURCE})(${JSON.stringify(anchorSelector)});
+      if (!element) return null;
+      const rect = (${VIEWPORT_RECT_SOURCE})(element);
+      return {
+        pageX: Math.max(0, Math.round(rect.x + window.scrollX + ${anchor.offsetX})),
+        pageY: Math.max(0, Math.round(rect.y + window.scrollY + ${anchor.offsetY})),
+      };
+    })();
+  `);
+}
+
+// Capture the whole scrollable page, up to maxHeight
+async function captureFullPage(
+  webContents: Electron.WebContents,
+  viewport: WidgetViewport,
+  maxHeight: number
+): Promise<NativeImage | null> {
+  const size: { width: number; height: number } = await webContents.executeJavaScript(
+    '({ width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight })'
+  );
+  const part = await captureRegion(webContents, viewport, {
+    pageX: 0,
+    pageY: 0,
+    width: size.width,
+    height: Math.min(size.height, maxHeight),
+  });
+  return part?.image ?? null;
+}
+
+// Scroll through a page region one window height at a time and stitch the slices.
+// Fixed and sticky page elements show up in every slice. Regions wider than the
+// window are cut off at its right edge.
+async function captureRegion(
+  webContents: Electron.WebContents,
+  viewport: WidgetViewport,
+  region: PageRegion
+): Promise<CompositePart | null> {
+  const slices: CompositePart[] = [];
+  let offset = 0;
+
+  while (offset < region.height) {
+    const scroll: { x: number; y: number } = await webContents.executeJavaScript(`
+      (function() {
+        window.scrollTo({ left: ${region.pageX}, top: ${region.pageY + offset}, behavior: 'instant' });
+        return { x: window.scrollX, y: window.scrollY };
+      })();
+    `);
+
+    // Wait for the scrolled content to be painted
+    await waitForFrame(webContents);
+
+    // The page may not scroll all the way when the region is near its end
+    const x = region.pageX - scroll.x;
+    const y = region.pageY + offset - scroll.y;
+    const rect = {
+      x: Math.max(0, x),
+      y: Math.max(0, y),
+      width: Math.min(region.width, viewport.width - x),
+      height: Math.min(region.height - offset, viewport.height - y),
+    };
+    if (rect.width <= 0 || rect.height <= 0) break;
+
+    const image = await webContents.capturePage(rect);
+    slices.push({ image, pageX: region.pageX, pageY: region.pageY + offset, width: rect.width });
+    offset += rect.height;
+  }
+
+  if (slices.length === 0) return null;
+  return { image: composeImages(slices, 'page', 0), pageX: region.pageX, pageY: region.pageY, width: slices[0].width };
+}
@@ -0,0 +1,315 @@
+/**
+ * Session Data
+ *
+ * Cookies and localStorage of the session partitions widgets capture with:
+ * listed and cleared from the session manager, and moved between partitions
+ * or installs through passphrase-encrypted files, so a new machine doesn't
+ * need every site signed in to again.
+ *
+ * localStorage is only reachable from a page of its site, so it's read and
+ * written by loading the partition's widget and login pages in a pooled
+ * capture window. Files use AES-256-GCM with a key derived from the
+ * passphrase (scrypt), since safeStorage keys don't leave the machine.
+ */
+
+import { session, type Cookie, type CookiesSetDetails } from 'electron';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync, type DecipherGCM } from 'crypto';
+import fs from 'fs';
+import { getDatabase } from '../database/connection';
+import { DEFAULT_VIEWPORT } from '../types/dashboard';
+import type { SessionPartition, SessionCookie, SessionTransferSummary } from '../types/dashboard';
+import { acquireCaptureWindow, releaseCaptureWindow } from './window-pool';
+import { loadPartitionCredentials } from './credentials';
+import { navigate } from './screenshot';
+
+const FILE_FORMAT = 'my-dashboards-session';
+const FILE_VERSION = 1;
+
+/**
+ * A session file that can't be read: not a session file, or the wrong passphrase
+ */
+export class SessionFileError extends Error {
+  constructor(
+    readonly code: 'INVALID_SESSION_FILE' | 'WRONG_PASSPHRASE',
+    message: string
+  ) {
+    super(message);
+    this.name = 'SessionFileError';
+  }
+}
+
+// localStorage of one site, with the page it was read from
+interface StorageEntry {
+  url: string;
+  items: [string, string][];
+}
+
+interface SessionData {
+  cookies: Cookie[];
+  storage: StorageEntry[];
+}
+
+// On disk: the encrypted SessionData and what's needed to decrypt it (base64)
+interface SessionFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * List the partitions of credential groups and of widgets without a group
+ */
+export function listSessionPartitions(): SessionPartition[] {
+  const db = getDatabase();
+  const groups = db
+    .prepare(
+      `SELECT name, partition, (SELECT COUNT(*) FROM widgets WHERE widgets.partition = credential_groups.partition)
+       AS widgetCount FROM credential_groups ORDER BY name`
+    )
+    .all() as Omit<SessionPartition, 'kind'>[];
+  const widgets = db
+    .prepare(
+      `SELECT MIN(name) AS name, partition, COUNT(*) AS widgetCount FROM widgets
+       WHERE partition NOT IN (SELECT partition FROM credential_groups)
+       GROUP BY partition ORDER BY name`
+    )
+    .all() as Omit<SessionPartition, 'kind'>[];
+
+  return [
+    ...groups.map((group) => ({ ...group, kind: 'group' as const })),
+    ...widgets.map((widget) => ({ ...widget, kind: 'widget' as const })),
+  ];
+}
+
+/**
+ * List a partition's cookies, by site
+ */
+export async function listSessionCookies(partition: string): Promise<SessionCookie[]> {
+  const cookies = await getSession(partition).cookies.get({});
+  return cookies
+    .map((cookie) => ({
+      name: cookie.name,
+      domain: cookie.domain ?? '',
+      path: cookie.path ?? '/',
+      expirationDate: cookie.session ? null : (cookie.expirationDate ?? null),
+      secure: !!cookie.secure,
+      httpOnly: !!cookie.httpOnly,
+    }))
+    .sort((a, b) => a.domain.localeCompare(b.domain) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Delete one cookie from a partition
+ */
+export async function removeSessionCookie(partition: string, cookie: SessionCookie): Promise<void> {
+  await getSession(partition).cookies.remove(getCookieUrl(cookie), cookie.name);
+}
+
+/**
+ * Delete all of a partition's cookies, signing it out of every site
+ */
+export async function clearSessionCookies(partition: string): Promise<void> {
+  await getSession(partition).clearStorageData({ storages: ['cookies'] });
+}
+
+/**
+ * Write a partition's cookies and localStorage to an encrypted file
+ */
+export async function exportSession(
+  partition: string,
+  filePath: string,
+  passphrase: string
+): Promise<SessionTransferSummary> {
+  const cookies = await getSession(partition).cookies.get({});
+  const storage = await readLocalStorage(partition);
+  const data: SessionData = { cookies, storage };
+
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  const file: SessionFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: encrypted.toString('base64'),
+  };
+  await fs.promises.writeFile(filePath, JSON.stringify(file, null, 2));
+
+  return { cookies: cookies.length, origins: storage.length };
+}
+
+/**
+ * Add the cookies and localStorage from an exported file to a partition.
+ * Existing cookies with the same name are replaced; cookies the partition
+ * refuses (expired, invalid for their site) are skipped.
+ */
+export async function importSession(
+  partition: string,
+  filePath: string,
+  passphrase: string
+): Promise<SessionTransferSummary> {
+  const data = decryptSessionFile(await fs.promises.readFile(filePath, 'utf8'), passphrase);
+  const ses = getSession(partition);
+
+  let cookies = 0;
+  for (const cookie of data.cookies) {
+    try {
+      await ses.cookies.set(toCookieDetails(cookie));
+      cookies++;
+    } catch (error) {
+      console.warn(`[Sessions] Skipped cookie ${cookie.name} for ${cookie.domain}:`, error);
+    }
+  }
+  await ses.cookies.flushStore();
+
+  const origins = await writeLocalStorage(partition, data.storage);
+  return { cookies, origins };
+}
+
+function getSession(partition: string): Electron.Session {
+  return session.fromPartition(`persist:${partition}`);
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function decryptSessionFile(contents: string, passphrase: string): SessionData {
+  let file: SessionFile;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new SessionFileError('INVALID_SESSION_FILE', 'Not a session file');
+  }
+  if (file?.format !== FILE_FORMAT || file.version !== FILE_VERSION) {
+    throw new SessionFileError('INVALID_SESSION_FILE', 'Not a session file, or from a newer version');
+  }
+  if ([file.salt, file.iv, file.tag, file.data].some((field) => typeof field !== 'string')) {
+    throw new SessionFileError('INVALID_SESSION_FILE', 'The session file is incomplete');
+  }
+
+  let decipher: DecipherGCM;
+  try {
+    decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  } catch {
+    // An IV or authentication tag of the wrong length
+    throw new SessionFileError('INVALID_SESSION_FILE', 'The session file is damaged');
+  }
+  try {
+    const decrypted = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf8'));
+  } catch {
+    // GCM authentication fails the same way for a wrong passphrase and a tampered file
+    throw new SessionFileError('WRONG_PASSPHRASE', 'Wrong passphrase, or the file was modified');
+  }
+}
+
+// A URL the cookie is sent to, which Electron needs to set or remove it
+function getCookieUrl(cookie: Pick<Cookie, 'domain' | 'path' | 'secure'>): string {
+  const host = (cookie.domain ?? '').replace(/^\./, '');
+  return `${cookie.secure ? 'https' : 'http'}://${host}${cookie.path ?? '/'}`;
+}
+
+function toCookieDetails(cookie: Cookie): CookiesSetDetails {
+  return {
+    url: getCookieUrl(cookie),
+    name: cookie.name,
+    value: cookie.value,
+    // Host-only cookies are set without a domain, which scopes them to the URL's host
+    domain: cookie.hostOnly ? undefined : cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    expirationDate: cookie.session ? undefined : cookie.expirationDate,
+    sameSite: cookie.sameSite,
+  };
+}
+
+// Pages of each site the partition is used for: its login page and widgets
+function getPartitionUrls(partition: string): string[] {
+  const rows = getDatabase().prepare('SELECT url FROM widgets WHERE partition = ?').all(partition) as {
+    url: string;
+  }[];
+  const loginUrl = loadPartitionCredentials(partition)?.loginUrl;
+  const urls = [...(loginUrl ? [loginUrl] : []), ...rows.map((row) => row.url)];
+
+  // One page per site is enough
+  const byOrigin = new Map<string, string>();
+  for (const url of urls) {
+    try {
+      const { origin } = new URL(url);
+      if (!byOrigin.has(origin)) byOrigin.set(origin, url);
+    } catch {
+      // Not a valid URL, nothing to read from
+    }
+  }
+  return [...byOrigin.values()];
+}
+
+// Read the localStorage of every site the partition is used for. Pages that
+// don't load, or redirect to a site already read, are skipped.
+async function readLocalStorage(partition: string): Promise<StorageEntry[]> {
+  const entries = new Map<string, StorageEntry>();
+  const pooled = acquireCaptureWindow(partition, DEFAULT_VIEWPORT);
+  try {
+    for (const url of getPartitionUrls(partition)) {
+      try {
+        await navigate(pooled.window, url);
+        const entry: StorageEntry & { origin: string } = await pooled.window.webContents.executeJavaScript(
+          '({ origin: location.origin, url: location.href, items: Object.entries(localStorage) })'
+        );
+        if (entry.items.length > 0 && !entries.has(entry.origin)) {
+          entries.set(entry.origin, { url: entry.url, items: entry.items });
+        }
+      } catch (error) {
+        console.warn(`[Sessions] Couldn't read localStorage from ${url}:`, error);
+      }
+    }
+  } finally {
+    releaseCaptureWindow(pooled);
+  }
+  return [...entries.values()];
+}
+
+// Write localStorage back, site by site. Returns how many sites were written;
+// a page that redirects to another site (e.g. a login page) can't be written to.
+async function writeLocalStorage(partition: string, storage: StorageEntry[]): Promise<number> {
+  if (storage.length === 0) return 0;
+
+  let written = 0;
+  const pooled = acquireCaptureWindow(partition, DEFAULT_VIEWPORT);
+  try {
+    for (const entry of storage) {
+      try {
+        await navigate(pooled.window, entry.url);
+        const done: boolean = await pooled.window.webContents.executeJavaScript(`
+          (function() {
+            if (location.origin !== ${JSON.stringify(new URL(entry.url).origin)}) return false;
+            for (const [key, value] of ${JSON.stringify(entry.items)}) {
+              localStorage.setItem(key, value);
+            }
+            return true;
+          })();
+        `);
+        if (done) written++;
+      } catch (error) {
+        console.warn(`[Sessions] Couldn't write localStorage to ${entry.url}:`, error);
+      }
+    }
+  } finally {
+    // The pages were loaded without the imported storage, so don't reuse them
+    releaseCaptureWindow(pooled, { recycle: true });
+  }
+  return written;
+}
@@ -0,0 +1,50 @@
+/**
+ * Session Health
+ *
+ * Tracks whether each session partition is signed in, going by the outcome of
+ * its most recent capture: a capture that logged in (or didn't need to) marks
+ * it active, and an AUTH_FAILED capture marks it failed until the next
+ * successful one. Other failures (timeouts, missing elements...) say nothing
+ * about the session and leave its status alone. Statuses are kept in memory
+ * and rebuilt by the first captures after a restart.
+ */
+
+import type { CaptureResult, SessionStatus } from '../types/dashboard';
+
+const statuses = new Map<string, SessionStatus>();
+
+/**
+ * Update a partition's status from a capture result. Returns the new status,
+ * or null when it didn't change.
+ */
+export function recordSessionResult(
+  partition: string,
+  result: CaptureResult,
+  hasCredentials: boolean
+): SessionStatus | null {
+  const previous = statuses.get(partition);
+  let status: SessionStatus;
+
+  if (result.success) {
+    // A public page loading fine doesn't make its partition signed in
+    if (!hasCredentials && !previous) return null;
+    status = { partition, state: 'active', message: null, checkedAt: result.capturedAt };
+  } else if (result.error?.code === 'AUTH_FAILED') {
+    status = { partition, state: 'auth-failed', message: result.error.message, checkedAt: result.capturedAt };
+  } else {
+    return null;
+  }
+
+  statuses.set(partition, status);
+  if (previous?.state === status.state && previous.message === status.message) {
+    return null;
+  }
+  return status;
+}
+
+/**
+ * List the status of every partition checked since startup
+ */
+export function listSessionStatuses(): SessionStatus[] {
+  return [...statuses.values()];
+}
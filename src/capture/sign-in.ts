@@ -0,0 +1,52 @@
+/**
+ * Interactive Sign-In
+ *
+ * When automatic login can't get through (captchas, push notifications, SSO
+ * consent screens), the user signs in by hand in a visible window on the
+ * session partition (see main.ts). This works out where that window starts
+ * and how to tell the user is done: the credentials' own success checks, or
+ * else the login form having gone away on one of the widgets' sites.
+ */
+
+import { getDatabase } from '../database/connection';
+import type { WidgetRow } from '../types/dashboard';
+import { loadPartitionCredentials } from './credentials';
+import { getLoginFormExpression, getLoginSuccessExpression } from './login';
+
+export interface SignInTarget {
+  // Page the sign-in window opens
+  url: string;
+  // In-page expression that is truthy once the user is signed in
+  signedInExpression: string;
+}
+
+/**
+ * Where to sign in to a session partition, or null when it has neither
+ * credentials nor widgets to start from
+ */
+export function getSignInTarget(partition: string): SignInTarget | null {
+  const credentials = loadPartitionCredentials(partition);
+  const rows = getDatabase().prepare('SELECT url FROM widgets WHERE partition = ?').all(partition) as Pick<
+    WidgetRow,
+    'url'
+  >[];
+  const url = credentials?.loginUrl || rows[0]?.url;
+  if (!url) return null;
+
+  const successExpression = credentials && getLoginSuccessExpression(credentials);
+  if (successExpression) {
+    return { url, signedInExpression: successExpression };
+  }
+
+  // SSO pages on another site have no password field either, so only the widgets' own sites count
+  const siteUrls = rows.length > 0 ? rows.map((row) => row.url) : [url];
+  const hosts = [...new Set(siteUrls.map((siteUrl) => new URL(siteUrl).hostname))];
+  return {
+    url,
+    signedInExpression: [
+      `document.readyState === 'complete'`,
+      `${JSON.stringify(hosts)}.includes(location.hostname)`,
+      `!(${getLoginFormExpression(credentials)})`,
+    ].join(' && '),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Snapshot Store
+ *
+ * Persists captured widget images as PNG files under the app's userData folder
+ * (not synced with the database) and records them in the widget_snapshots
+ * table, so the last good image can be shown immediately on launch and past
+ * captures can be browsed in the widget's history timeline.
+ *
+ * History is pruned per widget by count and age (snapshot_retention_count and
+ * snapshot_retention_days); the latest snapshot is always kept.
+ */
+
+import { app, type NativeImage } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { getDatabase, generateId } from '../database/connection';
+import { snapshotFromRow } from '../types/dashboard';
+import type { WidgetSnapshot, WidgetSnapshotRow } from '../types/dashboard';
+
+const SNAPSHOTS_FOLDER = 'snapshots';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the folder that holds snapshot files (one subfolder per widget)
+ */
+export function getSnapshotsDirectory(): string {
+  return path.join(app.getPath('userData'), SNAPSHOTS_FOLDER);
+}
+
+/**
+ * Get the absolute path of a snapshot's PNG file
+ */
+export function getSnapshotFilePath(snapshot: WidgetSnapshot): string {
+  return path.join(getSnapshotsDirectory(), snapshot.filePath);
+}
+
+/**
+ * Write a captured image to disk and record it as the widget's latest snapshot
+ */
+export function saveSnapshot(
+  widgetId: string,
+  image: NativeImage,
+  capturedAt: number,
+  text: string | null = null
+): WidgetSnapshot {
+  const db = getDatabase();
+  const id = generateId();
+  // Stored relative to the snapshots folder so the userData location can change
+  const filePath = path.join(widgetId, `${id}.png`);
+  const absolutePath = path.join(getSnapshotsDirectory(), filePath);
+  const { width, height } = image.getSize();
+
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+  fs.writeFileSync(absolutePath, image.toPNG());
+
+  db.prepare(`
+    INSERT INTO widget_snapshots (id, widget_id, file_path, width, height, text, captured_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, widgetId, filePath, width, height, text, capturedAt);
+
+  pruneWidgetSnapshots(widgetId);
+
+  return snapshotFromRow(db.prepare('SELECT * FROM widget_snapshots WHERE id = ?').get(id) as WidgetSnapshotRow);
+}
+
+/**
+ * List a widget's snapshots, newest first
+ */
+export function listSnapshots(widgetId: string): WidgetSnapshot[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM widget_snapshots WHERE widget_id = ? ORDER BY captured_at DESC')
+    .all(widgetId) as WidgetSnapshotRow[];
+  return rows.map(snapshotFromRow);
+}
+
+/**
+ * Get a snapshot by id
+ */
+export function getSnapshot(id: string): WidgetSnapshot | null {
+  const row = getDatabase().prepare('SELECT * FROM widget_snapshots WHERE id = ?').get(id) as
+    | WidgetSnapshotRow
+    | undefined;
+  return row ? snapshotFromRow(row) : null;
+}
+
+/**
+ * Get the most recent snapshot for a widget, if any
+ */
+export function getLatestSnapshot(widgetId: string): WidgetSnapshot | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM widget_snapshots WHERE widget_id = ? ORDER BY captured_at DESC LIMIT 1')
+    .get(widgetId) as WidgetSnapshotRow | undefined;
+  return row ? snapshotFromRow(row) : null;
+}
+
+/**
+ * Read a snapshot file as a PNG data URL. Returns null if the file is missing.
+ */
+export function readSnapshotDataUrl(snapshot: WidgetSnapshot): string | null {
+  try {
+    const data = fs.readFileSync(getSnapshotFilePath(snapshot));
+    return `data:image/png;base64,${data.toString('base64')}`;
+  } catch (error) {
+    console.error(`[Snapshots] Failed to read snapshot ${snapshot.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Apply a widget's retention settings, deleting snapshots beyond the count
+ * limit or older than the age limit. The latest snapshot is always kept.
+ */
+export function pruneWidgetSnapshots(widgetId: string): void {
+  const retention = getDatabase()
+    .prepare('SELECT snapshot_retention_count, snapshot_retention_days FROM widgets WHERE id = ?')
+    .get(widgetId) as { snapshot_retention_count: number; snapshot_retention_days: number } | undefined;
+  if (!retention) return;
+
+  const maxCount = retention.snapshot_retention_count;
+  const minCapturedAt =
+    retention.snapshot_retention_days > 0 ? Date.now() - retention.snapshot_retention_days * DAY_MS : 0;
+
+  listSnapshots(widgetId).forEach((snapshot, index) => {
+    if (index === 0) return;
+    if ((maxCount > 0 && index >= maxCount) || snapshot.capturedAt < minCapturedAt) {
+      deleteSnapshot(snapshot);
+    }
+  });
+}
+
+/**
+ * Prune snapshot history for every widget (age limits expire even when a widget isn't capturing)
+ */
+export function pruneAllSnapshots(): void {
+  const widgets = getDatabase().prepare('SELECT DISTINCT widget_id FROM widget_snapshots').all() as {
+    widget_id: string;
+  }[];
+  for (const { widget_id } of widgets) {
+    try {
+      pruneWidgetSnapshots(widget_id);
+    } catch (error) {
+      console.error(`[Snapshots] Failed to prune snapshots for ${widget_id}:`, error);
+    }
+  }
+}
+
+/**
+ * Remove every snapshot file and record for a widget (after it was deleted)
+ */
+export function deleteWidgetSnapshots(widgetId: string): void {
+  getDatabase().prepare('DELETE FROM widget_snapshots WHERE widget_id = ?').run(widgetId);
+  fs.rmSync(path.join(getSnapshotsDirectory(), widgetId), { recursive: true, force: true });
+}
+
+function deleteSnapshot(snapshot: WidgetSnapshot): void {
+  getDatabase().prepare('DELETE FROM widget_snapshots WHERE id = ?').run(snapshot.id);
+  fs.rmSync(getSnapshotFilePath(snapshot), { force: true });
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { generateTotp } from './totp';
+
+// The RFC 6238 SHA-1 test key, the ASCII string "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_URI = `otpauth://totp/Example:alice?secret=${RFC_SECRET}&digits=8`;
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('matches the RFC 6238 SHA-1 vector at T=%i', (seconds, code) => {
+    expect(generateTotp(RFC_URI, seconds * 1000)).toBe(code);
+  });
+
+  it('defaults to 6 digits every 30 seconds', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 30 * 1000)).toBe(generateTotp(RFC_SECRET, 59 * 1000));
+  });
+
+  it('accepts lowercase, grouped and padded secrets', () => {
+    const code = generateTotp(RFC_SECRET, 59 * 1000);
+    expect(generateTotp(RFC_SECRET.toLowerCase(), 59 * 1000)).toBe(code);
+    expect(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', 59 * 1000)).toBe(code);
+    expect(generateTotp('GEZD-GNBV-GY3T-QOJQ-GEZD-GNBV-GY3T-QOJQ', 59 * 1000)).toBe(code);
+    // "12345" is 5 bytes, which base32 encodes to 8 characters without padding
+    expect(generateTotp('GEZDGNBV', 59 * 1000)).toBe(generateTotp('GEZDGNBV======', 59 * 1000));
+    expect(generateTotp('GEZDGNA=', 59 * 1000)).toBe(generateTotp('GEZDGNA', 59 * 1000));
+  });
+
+  it('reads the period and algorithm from an otpauth URI', () => {
+    const sha256 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+    expect(generateTotp(`otpauth://totp/x?secret=${sha256}&digits=8&algorithm=SHA256`, 59 * 1000)).toBe('46119246');
+    expect(generateTotp(`otpauth://totp/x?secret=${RFC_SECRET}&period=60`, 59 * 1000)).toBe(
+      generateTotp(RFC_SECRET, 0)
+    );
+  });
+
+  it('rejects invalid secrets and parameters', () => {
+    expect(() => generateTotp('not base32!')).toThrow('Invalid character');
+    expect(() => generateTotp('   ')).toThrow('empty');
+    expect(() => generateTotp(`otpauth://totp/x?secret=${RFC_SECRET}&digits=4`)).toThrow('Unsupported');
+    expect(() => generateTotp(`otpauth://totp/x?secret=${RFC_SECRET}&algorithm=MD5`)).toThrow('Unsupported');
+  });
+});
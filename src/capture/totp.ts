@@ -0,0 +1,82 @@
+/**
+ * TOTP Codes
+ *
+ * Generates the time-based one-time codes (RFC 6238) asked for by two-factor
+ * logins. Secrets are the base32 key shown when 2FA is set up, or the
+ * otpauth:// URI behind its QR code, which may change the digits, period or
+ * hash algorithm from the usual 6 digits every 30 seconds with SHA-1.
+ */
+
+import { createHmac } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const ALGORITHMS: Record<string, string> = { SHA1: 'sha1', SHA256: 'sha256', SHA512: 'sha512' };
+
+interface TotpParams {
+  key: Buffer;
+  digits: number;
+  period: number;
+  algorithm: string;
+}
+
+/**
+ * Current code for a secret. Throws when the secret isn't valid base32 or an
+ * otpauth:// URI with one.
+ */
+export function generateTotp(secret: string, now = Date.now()): string {
+  const { key, digits, period, algorithm } = parseSecret(secret);
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / period)));
+  const hmac = createHmac(algorithm, key).update(counter).digest();
+
+  // Dynamic truncation: 31 bits starting at the offset in the last nibble
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(code % 10 ** digits).padStart(digits, '0');
+}
+
+function parseSecret(secret: string): TotpParams {
+  const params: TotpParams = { key: Buffer.alloc(0), digits: 6, period: 30, algorithm: 'sha1' };
+  let encoded = secret;
+
+  if (secret.trim().toLowerCase().startsWith('otpauth://')) {
+    const query = new URL(secret.trim()).searchParams;
+    encoded = query.get('secret') ?? '';
+    params.digits = Number(query.get('digits') ?? params.digits);
+    params.period = Number(query.get('period') ?? params.period);
+    params.algorithm = ALGORITHMS[(query.get('algorithm') ?? 'SHA1').toUpperCase()] ?? '';
+    if (!params.algorithm || !(params.digits >= 6 && params.digits <= 10) || !(params.period > 0)) {
+      throw new Error('Unsupported TOTP parameters');
+    }
+  }
+
+  params.key = decodeBase32(encoded);
+  if (params.key.length === 0) {
+    throw new Error('TOTP secret is empty');
+  }
+  return params;
+}
+
+// Secrets are often shown in groups separated by spaces, and without padding
+function decodeBase32(encoded: string): Buffer {
+  const chars = encoded.replace(/[\s=-]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of chars) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid character in TOTP secret: ${char}`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,37 @@
+/**
+ * Value History
+ *
+ * Time series of the numbers extracted by text widgets, one point per
+ * capture, used to draw sparklines under KPI tiles.
+ */
+
+import { getDatabase } from '../database/connection';
+import type { WidgetValuePoint } from '../types/dashboard';
+
+/**
+ * Append a widget's extracted value
+ */
+export function recordWidgetValue(widgetId: string, value: number, capturedAt: number): void {
+  getDatabase()
+    .prepare('INSERT INTO widget_values (widget_id, value, captured_at) VALUES (?, ?, ?)')
+    .run(widgetId, value, capturedAt);
+}
+
+/**
+ * List a widget's values captured at or after `since`, oldest first
+ */
+export function listWidgetValues(widgetId: string, since: number): WidgetValuePoint[] {
+  return getDatabase()
+    .prepare(
+      `SELECT value, captured_at AS capturedAt FROM widget_values
+       WHERE widget_id = ? AND captured_at >= ? ORDER BY captured_at ASC`
+    )
+    .all(widgetId, since) as WidgetValuePoint[];
+}
+
+/**
+ * Delete a widget's value history (after the widget was deleted)
+ */
+export function deleteWidgetValues(widgetId: string): void {
+  getDatabase().prepare('DELETE FROM widget_values WHERE widget_id = ?').run(widgetId);
+}
@@ -0,0 +1,42 @@
+/**
+ * Viewport Emulation
+ *
+ * Applies a widget's viewport (size, device scale factor, mobile emulation and
+ * user agent) to a picker or capture window, so the page lays out the same way
+ * in both and crop coordinates line up.
+ */
+
+import type { BrowserWindow } from 'electron';
+import type { WidgetViewport } from '../types/dashboard';
+
+/**
+ * Key identifying windows that render pages the same way (used to pool capture windows)
+ */
+export function getViewportKey(viewport: WidgetViewport): string {
+  return [viewport.width, viewport.height, viewport.deviceScaleFactor, viewport.mobile, viewport.userAgent].join('|');
+}
+
+/**
+ * Emulate a viewport in a window created with useContentSize at the viewport's size.
+ * Call before loading a page; emulation is re-applied whenever a page is ready.
+ */
+export function applyViewport(window: BrowserWindow, viewport: WidgetViewport): void {
+  const { webContents } = window;
+  if (viewport.userAgent) {
+    webContents.setUserAgent(viewport.userAgent);
+  }
+
+  const size = { width: viewport.width, height: viewport.height };
+  const emulate = () =>
+    webContents.enableDeviceEmulation({
+      screenPosition: viewport.mobile ? 'mobile' : 'desktop',
+      screenSize: size,
+      viewPosition: { x: 0, y: 0 },
+      viewSize: size,
+      deviceScaleFactor: viewport.deviceScaleFactor,
+      scale: 1,
+    });
+
+  emulate();
+  webContents.on('dom-ready', emulate);
+}
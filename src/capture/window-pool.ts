@@ -0,0 +1,188 @@
+/**
+ * Capture Window Pool
+ *
+ * Keeps long-lived hidden capture windows keyed by session partition and
+ * viewport so widgets that share a partition reuse a warm window (cookies,
+ * HTTP cache, SPA bundles) instead of creating and destroying one per capture.
+ *
+ * Windows are recycled after a number of captures, when their renderer
+ * grows too large, when the system is low on memory, or after sitting idle.
+ */
+
+import { app, BrowserWindow } from 'electron';
+import type { WidgetViewport } from '../types/dashboard';
+import { applyViewport, getViewportKey } from './viewport';
+
+// Recycle a window after this many captures to release leaked page memory
+const MAX_CAPTURES_PER_WINDOW = 50;
+// Recycle a window whose renderer process uses more than this (in KB)
+const MAX_WINDOW_MEMORY_KB = 600 * 1024;
+// Drop idle windows when the system has less free memory than this (in KB)
+const MIN_FREE_SYSTEM_MEMORY_KB = 512 * 1024;
+// Maximum number of idle windows kept warm across all partitions
+const MAX_IDLE_WINDOWS = 6;
+// Destroy a window that hasn't been used for this long
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface PooledWindow {
+  window: BrowserWindow;
+  partition: string;
+  viewportKey: string;
+  captureCount: number;
+  busy: boolean;
+  lastUsedAt: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const pool: PooledWindow[] = [];
+
+/**
+ * Get an idle window for a partition and viewport, creating one if none is available
+ */
+export function acquireCaptureWindow(partition: string, viewport: WidgetViewport): PooledWindow {
+  const viewportKey = getViewportKey(viewport);
+  const existing = pool.find(
+    (entry) =>
+      entry.partition === partition &&
+      entry.viewportKey === viewportKey &&
+      !entry.busy &&
+      !entry.window.isDestroyed()
+  );
+  if (existing) {
+    if (existing.idleTimer) {
+      clearTimeout(existing.idleTimer);
+      existing.idleTimer = null;
+    }
+    existing.busy = true;
+    return existing;
+  }
+
+  // Don't use offscreen: true as it has different scaling behavior on HiDPI displays
+  // Instead, create a hidden window that matches the picker window exactly
+  const window = new BrowserWindow({
+    width: viewport.width,
+    height: viewport.height,
+    show: false,
+    // Use content size to ensure the viewport matches exactly
+    useContentSize: true,
+    // Position off-screen so it's truly invisible
+    x: -10000,
+    y: -10000,
+    webPreferences: {
+      contextIsolation: true,
+      nodeIntegration: false,
+      partition: `persist:${partition}`,
+      // Keep timers and rendering running while hidden
+      backgroundThrottling: false,
+    },
+  });
+  window.webContents.setAudioMuted(true);
+  applyViewport(window, viewport);
+
+  const entry: PooledWindow = {
+    window,
+    partition,
+    viewportKey,
+    captureCount: 0,
+    busy: true,
+    lastUsedAt: Date.now(),
+    idleTimer: null,
+  };
+
+  // A crashed renderer can't be reused
+  window.webContents.on('render-process-gone', () => destroyEntry(entry));
+  window.on('closed', () => removeEntry(entry));
+
+  pool.push(entry);
+  return entry;
+}
+
+/**
+ * Return a window to the pool after a capture.
+ * Pass recycle: true when the capture failed and the page state can't be trusted.
+ */
+export function releaseCaptureWindow(entry: PooledWindow, options: { recycle?: boolean } = {}): void {
+  entry.busy = false;
+  entry.captureCount += 1;
+  entry.lastUsedAt = Date.now();
+
+  if (
+    options.recycle ||
+    entry.window.isDestroyed() ||
+    entry.captureCount >= MAX_CAPTURES_PER_WINDOW ||
+    isOverMemoryLimit(entry) ||
+    isSystemLowOnMemory() ||
+    hasIdleSibling(entry)
+  ) {
+    destroyEntry(entry);
+    return;
+  }
+
+  entry.idleTimer = setTimeout(() => destroyEntry(entry), IDLE_TIMEOUT_MS);
+  evictExcessIdleWindows();
+}
+
+/**
+ * Destroy all idle windows for a partition (e.g. after its session was cleared)
+ */
+export function destroyPartitionWindows(partition: string): void {
+  for (const entry of [...pool]) {
+    if (entry.partition === partition && !entry.busy) {
+      destroyEntry(entry);
+    }
+  }
+}
+
+/**
+ * Destroy every pooled window (on quit)
+ */
+export function destroyAllCaptureWindows(): void {
+  for (const entry of [...pool]) {
+    destroyEntry(entry);
+  }
+}
+
+// Only keep one idle window per partition and viewport
+function hasIdleSibling(entry: PooledWindow): boolean {
+  return pool.some(
+    (other) =>
+      other !== entry && other.partition === entry.partition && other.viewportKey === entry.viewportKey && !other.busy
+  );
+}
+
+function isOverMemoryLimit(entry: PooledWindow): boolean {
+  if (entry.window.isDestroyed()) return false;
+  const pid = entry.window.webContents.getOSProcessId();
+  const metric = app.getAppMetrics().find((m) => m.pid === pid);
+  return !!metric && metric.memory.workingSetSize > MAX_WINDOW_MEMORY_KB;
+}
+
+function isSystemLowOnMemory(): boolean {
+  return process.getSystemMemoryInfo().free < MIN_FREE_SYSTEM_MEMORY_KB;
+}
+
+// Close least recently used idle windows beyond the idle limit
+function evictExcessIdleWindows(): void {
+  const idle = pool.filter((entry) => !entry.busy).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  while (idle.length > MAX_IDLE_WINDOWS) {
+    destroyEntry(idle.shift()!);
+  }
+}
+
+function destroyEntry(entry: PooledWindow): void {
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+  }
+  removeEntry(entry);
+  if (!entry.window.isDestroyed()) {
+    entry.window.destroy();
+  }
+}
+
+function removeEntry(entry: PooledWindow): void {
+  const index = pool.indexOf(entry);
+  if (index !== -1) {
+    pool.splice(index, 1);
+  }
+}
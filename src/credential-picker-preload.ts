@@ -2,7 +2,9 @@
  * Credential Picker Preload Script for My Dashboards
  *
  * This preload script is injected into the credential picker window to enable
- * selection of login form fields (username, password, submit button).
+ * selection of login form fields (username, password, submit button and the
+ * two-factor code field shown after logging in), or the recording of logins
+ * spread over several pages as steps.
  */
 
 /* eslint-disable no-undef */
@@ -12,15 +14,33 @@ interface CredentialSelection {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector: string;
+  totpSelector: string;
 }
 
-let currentStep: 'username' | 'password' | 'submit' = 'username';
+type FieldStep = 'username' | 'password' | 'submit' | 'totp';
+
+// Recorded login step (see src/capture/login.ts). The main process collects
+// them and turns page changes in between into waits.
+interface LoginStep {
+  type: 'fill' | 'click';
+  selector: string;
+  fill?: 'username' | 'password' | 'totp' | 'text';
+  value?: string;
+}
+
+let currentStep: FieldStep = 'username';
+// The code field only shows up after logging in, so the page works as usual
+// in that step until the user asks to pick it
+let pickingTotp = false;
+let recording = false;
+let recordedStepCount = 0;
 let highlightOverlay: HTMLElement | null = null;
 let toolbar: HTMLElement | null = null;
 let selection: CredentialSelection = {
   usernameSelector: '',
   passwordSelector: '',
   submitSelector: '',
+  totpSelector: '',
 };
 
 // Generate a unique CSS selector for an element
@@ -197,6 +217,28 @@ function createToolbar(): void {
       #credential-picker-toolbar .done-btn.visible {
         display: block;
       }
+      #credential-picker-toolbar .record-btn {
+        background: #3d3d5c;
+        color: #fff;
+      }
+      #credential-picker-toolbar .record-btn:hover {
+        background: #4d4d6c;
+      }
+      #credential-picker-toolbar .record-btn.active {
+        background: #dc2626;
+      }
+      #credential-picker-toolbar.recording .steps,
+      #credential-picker-toolbar.recording .skip-btn {
+        display: none;
+      }
+      #credential-picker-toolbar .pick-btn {
+        background: #6366f1;
+        color: #fff;
+        display: none;
+      }
+      #credential-picker-toolbar .pick-btn.visible {
+        display: block;
+      }
       #credential-picker-toolbar .cancel-btn {
         background: #dc2626;
         color: #fff;
@@ -231,10 +273,16 @@ function createToolbar(): void {
         <div class="step-label">3. Submit</div>
         <div class="step-value" id="value-submit">Click to select</div>
       </div>
+      <div class="step" id="step-totp">
+        <div class="step-label">4. 2FA Code</div>
+        <div class="step-value" id="value-totp">Optional</div>
+      </div>
     </div>
     <div class="instructions" id="instructions">Click on the username/email input field</div>
     <div class="buttons">
       <button class="skip-btn" id="btn-skip">Skip This Field</button>
+      <button class="pick-btn" id="btn-pick-totp">Pick Code Field</button>
+      <button class="record-btn" id="btn-record">Record Login Steps</button>
       <button class="done-btn" id="btn-done">Done</button>
       <button class="cancel-btn" id="btn-cancel">Cancel</button>
     </div>
@@ -243,6 +291,11 @@ function createToolbar(): void {
 
   // Button handlers
   document.getElementById('btn-skip')?.addEventListener('click', skipCurrentStep);
+  document.getElementById('btn-record')?.addEventListener('click', () => setRecording(!recording));
+  document.getElementById('btn-pick-totp')?.addEventListener('click', () => {
+    pickingTotp = true;
+    updateToolbarUI();
+  });
   document.getElementById('btn-done')?.addEventListener('click', finishSelection);
   document.getElementById('btn-cancel')?.addEventListener('click', cancel);
 }
@@ -257,7 +310,27 @@ function createHighlightOverlay(): void {
 
 // Update toolbar UI based on current state
 function updateToolbarUI(): void {
-  const steps = ['username', 'password', 'submit'] as const;
+  toolbar?.classList.toggle('recording', recording);
+  const recordBtn = document.getElementById('btn-record');
+  if (recordBtn) {
+    recordBtn.classList.toggle('active', recording);
+    recordBtn.textContent = recording ? 'Stop Recording' : 'Record Login Steps';
+  }
+  document
+    .getElementById('btn-pick-totp')
+    ?.classList.toggle('visible', !recording && currentStep === 'totp' && !pickingTotp);
+  if (recording) {
+    const instructions = document.getElementById('instructions');
+    if (instructions) {
+      instructions.textContent =
+        `Recording: ${recordedStepCount} step(s). Log in as usual (the username and password are ` +
+        'taken from the saved credentials), then click Done.';
+    }
+    document.getElementById('btn-done')?.classList.toggle('visible', recordedStepCount > 0);
+    return;
+  }
+
+  const steps = ['username', 'password', 'submit', 'totp'] as const;
 
   steps.forEach((step) => {
     const stepEl = document.getElementById(`step-${step}`);
@@ -288,14 +361,77 @@ function updateToolbarUI(): void {
       case 'submit':
         instructions.textContent = 'Click on the login/submit button';
         break;
+      case 'totp':
+        instructions.textContent = pickingTotp
+          ? 'Click on the 2FA code input field'
+          : 'If the site asks for a 2FA code, log in as usual until the code page shows, then click ' +
+            'Pick Code Field. Otherwise click Done.';
+        break;
     }
   }
 
-  // Show done button if at least username and password are selected
+  // Show done button if at least username and password are selected, or steps were recorded
   const doneBtn = document.getElementById('btn-done');
   if (doneBtn) {
     const hasRequired = selection.usernameSelector && selection.passwordSelector;
-    doneBtn.classList.toggle('visible', !!hasRequired);
+    doneBtn.classList.toggle('visible', !!hasRequired || recordedStepCount > 0);
+  }
+}
+
+// Start or stop recording login steps. While recording, the page works as usual.
+function setRecording(enabled: boolean): void {
+  recording = enabled;
+  ipcRenderer.send('credentialPicker:recording', enabled);
+  if (highlightOverlay) {
+    highlightOverlay.style.display = 'none';
+  }
+  updateToolbarUI();
+}
+
+// Fields are recorded with the value they end up with, rather than by their clicks
+function isValueField(element: Element): boolean {
+  if (element.tagName === 'TEXTAREA' || element.tagName === 'SELECT') return true;
+  if (element.tagName !== 'INPUT') return false;
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+  return !['checkbox', 'radio', 'submit', 'button', 'image', 'reset', 'file'].includes(type);
+}
+
+// Two-factor code fields, which get a fresh code on every login
+function isCodeField(input: HTMLInputElement): boolean {
+  if (input.autocomplete === 'one-time-code') return true;
+  const hint = `${input.name} ${input.id}`;
+  return /^\d{6,8}$/.test(input.value) && /otp|code|2fa|mfa|token/i.test(hint);
+}
+
+function recordStep(step: LoginStep): void {
+  ipcRenderer.send('credentialPicker:loginStep', step);
+  recordedStepCount++;
+  updateToolbarUI();
+}
+
+// Record a click on a button, link or other element (not prevented, so the login goes on)
+function handleRecordClick(target: Element): void {
+  const element = target.closest('button, a, [role="button"], input[type="submit"], input[type="button"]') ?? target;
+  if (isValueField(element)) return;
+  recordStep({ type: 'click', selector: generateSelector(element) });
+}
+
+// Record the value a field ends up with. Password fields never send their value,
+// and the main process drops the username's, since both come from the credentials.
+function handleRecordChange(e: Event): void {
+  if (!recording) return;
+  const target = e.target as Element;
+  if (toolbar?.contains(target) || !isValueField(target)) return;
+
+  const selector = generateSelector(target);
+  if ((target as HTMLInputElement).type === 'password') {
+    recordStep({ type: 'fill', selector, fill: 'password' });
+  } else if (isCodeField(target as HTMLInputElement)) {
+    recordStep({ type: 'fill', selector, fill: 'totp' });
+  } else if (target.tagName === 'SELECT') {
+    recordStep({ type: 'fill', selector, fill: 'text', value: (target as HTMLSelectElement).value });
+  } else {
+    recordStep({ type: 'fill', selector, fill: 'username', value: (target as HTMLInputElement).value });
   }
 }
 
@@ -310,13 +446,21 @@ function moveToNextStep(): void {
     currentStep = 'password';
   } else if (currentStep === 'password') {
     currentStep = 'submit';
+  } else if (currentStep === 'submit') {
+    currentStep = 'totp';
   }
+  pickingTotp = false;
+  ipcRenderer.send('credentialPicker:fields', { selection, currentStep });
   updateToolbarUI();
 }
 
 // Handle mouse move
 function handleMouseMove(e: MouseEvent): void {
   if (!highlightOverlay) return;
+  if (recording || (currentStep === 'totp' && !pickingTotp)) {
+    highlightOverlay.style.display = 'none';
+    return;
+  }
 
   const target = e.target as Element;
   if (target === highlightOverlay || target === toolbar || toolbar?.contains(target)) {
@@ -327,7 +471,7 @@ function handleMouseMove(e: MouseEvent): void {
   // Only highlight interactive elements for relevant steps
   let shouldHighlight = false;
 
-  if (currentStep === 'username' || currentStep === 'password') {
+  if (currentStep === 'username' || currentStep === 'password' || currentStep === 'totp') {
     shouldHighlight = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
   } else if (currentStep === 'submit') {
     shouldHighlight = target.tagName === 'BUTTON' ||
@@ -355,6 +499,13 @@ function handleClick(e: MouseEvent): void {
   if (target === toolbar || toolbar?.contains(target)) return;
   if (target === highlightOverlay) return;
 
+  if (recording) {
+    handleRecordClick(target);
+    return;
+  }
+  // Logging in on the way to the code field
+  if (currentStep === 'totp' && !pickingTotp) return;
+
   e.preventDefault();
   e.stopPropagation();
 
@@ -385,6 +536,10 @@ function handleClick(e: MouseEvent): void {
       selection.submitSelector = selector;
       element.classList.add('credential-selected-field');
       break;
+    case 'totp':
+      selection.totpSelector = selector;
+      element.classList.add('credential-selected-field');
+      break;
   }
 
   moveToNextStep();
@@ -392,10 +547,13 @@ function handleClick(e: MouseEvent): void {
 
 // Finish selection
 function finishSelection(): void {
-  if (!selection.usernameSelector || !selection.passwordSelector) {
-    return; // Need at least username and password
+  if ((!selection.usernameSelector || !selection.passwordSelector) && recordedStepCount === 0) {
+    return; // Need at least username and password, or recorded steps
   }
 
+  if (recording) {
+    setRecording(false);
+  }
   cleanup();
   ipcRenderer.send('credentialPicker:selection', selection);
 }
@@ -410,6 +568,7 @@ function cancel(): void {
 function cleanup(): void {
   document.removeEventListener('mousemove', handleMouseMove);
   document.removeEventListener('click', handleClick, true);
+  document.removeEventListener('change', handleRecordChange, true);
   highlightOverlay?.remove();
   toolbar?.remove();
   document.querySelectorAll('.credential-selected-field').forEach(el => {
@@ -423,6 +582,20 @@ function init(): void {
   createHighlightOverlay();
   document.addEventListener('mousemove', handleMouseMove);
   document.addEventListener('click', handleClick, true);
+  document.addEventListener('change', handleRecordChange, true);
+
+  // Carry on where the previous page of the login left off
+  const state = ipcRenderer.sendSync('credentialPicker:state') as {
+    recording: boolean;
+    stepCount: number;
+    fields: { selection: CredentialSelection; currentStep: FieldStep } | null;
+  };
+  recording = state.recording;
+  recordedStepCount = state.stepCount;
+  if (state.fields) {
+    selection = state.fields.selection;
+    currentStep = state.fields.currentStep;
+  }
   updateToolbarUI();
 }
 
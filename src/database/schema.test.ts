@@ -0,0 +1,86 @@
+import Database from 'better-sqlite3';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initializeDatabase } from './schema';
+
+const OLD_CHECK = "CHECK(selector_type IN ('css', 'crop'))";
+const NEW_CHECK = "CHECK(selector_type IN ('css', 'crop', 'text'))";
+
+// Put back the widgets table of databases created before text widgets existed
+function restoreOldWidgetsTable(db: Database.Database): void {
+  const { sql } = db.prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='widgets'`).get() as {
+    sql: string;
+  };
+  db.pragma('foreign_keys = OFF');
+  db.exec(`
+    DROP TABLE widgets;
+    ${sql.replace(NEW_CHECK, OLD_CHECK)};
+    CREATE INDEX idx_widgets_dashboard_id ON widgets(dashboard_id);
+  `);
+  db.pragma('foreign_keys = ON');
+}
+
+function count(db: Database.Database, table: string): number {
+  return (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+}
+
+describe('widget selector type migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    initializeDatabase(db);
+    restoreOldWidgetsTable(db);
+
+    db.prepare(`INSERT INTO dashboards (id, name, created_at, updated_at) VALUES ('d1', 'Main', 0, 0)`).run();
+    db.prepare(
+      `INSERT INTO widgets (id, dashboard_id, name, url, selector_type, selector_data, partition, created_at, updated_at)
+       VALUES ('w1', 'd1', 'Sales', 'https://example.com', 'css', '{"selectors":["#sales"]}', 'widget-w1', 0, 0)`
+    ).run();
+    db.prepare(
+      `INSERT INTO widget_credentials (widget_id, encrypted_username, encrypted_password, login_url, created_at, updated_at)
+       VALUES ('w1', x'00', x'00', 'https://example.com/login', 0, 0)`
+    ).run();
+    db.prepare(
+      `INSERT INTO widget_snapshots (id, widget_id, file_path, width, height, captured_at)
+       VALUES ('s1', 'w1', 'w1/s1.png', 100, 100, 0)`
+    ).run();
+    db.prepare(
+      `INSERT INTO widget_alerts (id, widget_id, dashboard_id, widget_name, kind, message, created_at)
+       VALUES ('a1', 'w1', 'd1', 'Sales', 'pixel', 'Changed', 0)`
+    ).run();
+    db.prepare(`INSERT INTO widget_values (widget_id, value, captured_at) VALUES ('w1', 42, 0)`).run();
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.restoreAllMocks();
+  });
+
+  it('allows text widgets after the upgrade', () => {
+    initializeDatabase(db);
+
+    const { sql } = db.prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='widgets'`).get() as {
+      sql: string;
+    };
+    expect(sql).toContain(NEW_CHECK);
+  });
+
+  it('keeps the rows that reference widgets', () => {
+    initializeDatabase(db);
+
+    expect(count(db, 'widgets')).toBe(1);
+    expect(count(db, 'widget_credentials')).toBe(1);
+    expect(count(db, 'widget_snapshots')).toBe(1);
+    expect(count(db, 'widget_alerts')).toBe(1);
+    expect(count(db, 'widget_values')).toBe(1);
+  });
+
+  it('turns foreign keys back on', () => {
+    initializeDatabase(db);
+
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    expect(db.pragma('foreign_key_check')).toEqual([]);
+  });
+});
@@ -9,6 +9,9 @@ import Database from 'better-sqlite3';
  * - widgets: Web snippet widgets within dashboards
  * - widget_credentials: Encrypted login credentials for widgets (per-widget)
  * - credential_groups: Shared credential groups for multiple widgets
+ * - widget_snapshots: Captured widget images stored on disk
+ * - widget_alerts: Change detection alerts log (per dashboard)
+ * - widget_values: Time series of numbers extracted by text widgets
  */
 
 export function initializeDatabase(db: Database.Database): void {
@@ -22,6 +25,9 @@ export function initializeDatabase(db: Database.Database): void {
   createWidgetsTable(db);
   createWidgetCredentialsTable(db);
   createCredentialGroupsTable(db);
+  createWidgetSnapshotsTable(db);
+  createWidgetAlertsTable(db);
+  createWidgetValuesTable(db);
 
   // Run migrations
   runMigrations(db);
@@ -93,9 +99,10 @@ function createWidgetsTable(db: Database.Database): void {
         name TEXT NOT NULL,
         url TEXT NOT NULL,
 
-        -- Selector configuration: 'css' or 'crop'
-        selector_type TEXT NOT NULL CHECK(selector_type IN ('css', 'crop')),
-        -- JSON: {selector: string} for css, {x, y, width, height, scrollX, scrollY} for crop
+        -- Selector configuration: 'css', 'crop' or 'text'
+        selector_type TEXT NOT NULL CHECK(selector_type IN ('css', 'crop', 'text')),
+        -- JSON: {selectors} for css, {x, y, width, height, scrollX, scrollY} for crop,
+        -- {selectors, parseNumber, numberPattern} for text
         selector_data TEXT NOT NULL,
 
         -- Grid position (column and row based)
@@ -193,6 +200,104 @@ function createCredentialGroupsTable(db: Database.Database): void {
   }
 }
 
+function createWidgetSnapshotsTable(db: Database.Database): void {
+  const tableExists = db
+    .prepare(
+      `
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name='widget_snapshots'
+  `
+    )
+    .get();
+
+  if (!tableExists) {
+    console.log('Creating widget_snapshots table...');
+    db.exec(`
+      CREATE TABLE widget_snapshots (
+        id TEXT PRIMARY KEY,
+        widget_id TEXT NOT NULL,
+        -- PNG file path relative to the snapshots folder in userData
+        file_path TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        captured_at INTEGER NOT NULL,
+
+        FOREIGN KEY (widget_id) REFERENCES widgets(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_widget_snapshots_widget_id ON widget_snapshots(widget_id, captured_at);
+    `);
+    console.log('widget_snapshots table created successfully');
+  }
+}
+
+function createWidgetAlertsTable(db: Database.Database): void {
+  const tableExists = db
+    .prepare(
+      `
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name='widget_alerts'
+  `
+    )
+    .get();
+
+  if (!tableExists) {
+    console.log('Creating widget_alerts table...');
+    db.exec(`
+      CREATE TABLE widget_alerts (
+        id TEXT PRIMARY KEY,
+        widget_id TEXT NOT NULL,
+        dashboard_id TEXT NOT NULL,
+        widget_name TEXT NOT NULL,
+        -- 'pixel', 'text' or 'rule'
+        kind TEXT NOT NULL,
+        message TEXT NOT NULL,
+        change_ratio REAL,
+        previous_text TEXT,
+        current_text TEXT,
+        -- Snapshot that triggered the alert (may have been pruned since)
+        snapshot_id TEXT,
+        acknowledged INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+
+        FOREIGN KEY (widget_id) REFERENCES widgets(id) ON DELETE CASCADE,
+        FOREIGN KEY (dashboard_id) REFERENCES dashboards(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_widget_alerts_dashboard_id ON widget_alerts(dashboard_id, created_at);
+    `);
+    console.log('widget_alerts table created successfully');
+  }
+}
+
+function createWidgetValuesTable(db: Database.Database): void {
+  const tableExists = db
+    .prepare(
+      `
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name='widget_values'
+  `
+    )
+    .get();
+
+  if (!tableExists) {
+    console.log('Creating widget_values table...');
+    db.exec(`
+      CREATE TABLE widget_values (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        widget_id TEXT NOT NULL,
+        value REAL NOT NULL,
+        captured_at INTEGER NOT NULL,
+
+        FOREIGN KEY (widget_id) REFERENCES widgets(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_widget_values_widget_id ON widget_values(widget_id, captured_at);
+    `);
+    console.log('widget_values table created successfully');
+  }
+}
+
 function runMigrations(db: Database.Database): void {
   // Migration: Add credential_group_id column to widgets table
   const hasCredentialGroupId = db
@@ -212,4 +317,179 @@ function runMigrations(db: Database.Database): void {
     `);
     console.log('Migration complete: credential_group_id added to widgets');
   }
+
+  // Migration: Add refresh_paused column to widgets and dashboards
+  for (const table of ['widgets', 'dashboards']) {
+    if (!columnExists(db, table, 'refresh_paused')) {
+      console.log(`Running migration: Adding refresh_paused to ${table}...`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN refresh_paused INTEGER NOT NULL DEFAULT 0`);
+      console.log(`Migration complete: refresh_paused added to ${table}`);
+    }
+  }
+
+  // Migration: Add wait_strategy column to widgets (JSON, NULL = default strategy)
+  if (!columnExists(db, 'widgets', 'wait_strategy')) {
+    console.log('Running migration: Adding wait_strategy to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN wait_strategy TEXT`);
+    console.log('Migration complete: wait_strategy added to widgets');
+  }
+
+  // Migration: Add snapshot history retention columns to widgets
+  if (!columnExists(db, 'widgets', 'snapshot_retention_count')) {
+    console.log('Running migration: Adding snapshot retention to widgets...');
+    db.exec(`
+      ALTER TABLE widgets ADD COLUMN snapshot_retention_count INTEGER NOT NULL DEFAULT 100;
+      ALTER TABLE widgets ADD COLUMN snapshot_retention_days INTEGER NOT NULL DEFAULT 7;
+    `);
+    console.log('Migration complete: snapshot retention added to widgets');
+  }
+
+  // Migration: Add change detection settings to widgets and extracted text to snapshots
+  if (!columnExists(db, 'widgets', 'alert_mode')) {
+    console.log('Running migration: Adding change detection to widgets...');
+    db.exec(`
+      ALTER TABLE widgets ADD COLUMN alert_mode TEXT NOT NULL DEFAULT 'off';
+      ALTER TABLE widgets ADD COLUMN alert_threshold REAL NOT NULL DEFAULT 1;
+    `);
+    console.log('Migration complete: change detection added to widgets');
+  }
+  if (!columnExists(db, 'widget_snapshots', 'text')) {
+    console.log('Running migration: Adding text to widget_snapshots...');
+    db.exec(`ALTER TABLE widget_snapshots ADD COLUMN text TEXT`);
+    console.log('Migration complete: text added to widget_snapshots');
+  }
+
+  // Migration: Allow the 'text' selector type in the widgets CHECK constraint
+  migrateWidgetSelectorTypes(db);
+
+  // Migration: Add threshold rules to widgets (JSON array)
+  if (!columnExists(db, 'widgets', 'rules')) {
+    console.log('Running migration: Adding rules to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN rules TEXT NOT NULL DEFAULT '[]'`);
+    console.log('Migration complete: rules added to widgets');
+  }
+
+  // Migration: Add display mode to widgets ('snapshot' or 'live')
+  if (!columnExists(db, 'widgets', 'display_mode')) {
+    console.log('Running migration: Adding display_mode to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN display_mode TEXT NOT NULL DEFAULT 'snapshot'`);
+    console.log('Migration complete: display_mode added to widgets');
+  }
+
+  // Migration: Add capture size options to widgets (JSON)
+  if (!columnExists(db, 'widgets', 'capture_options')) {
+    console.log('Running migration: Adding capture_options to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN capture_options TEXT NOT NULL DEFAULT '{"fullPage":false,"maxHeight":5000}'`);
+    console.log('Migration complete: capture_options added to widgets');
+  }
+
+  // Migration: Add viewport to widgets (JSON, NULL = desktop)
+  if (!columnExists(db, 'widgets', 'viewport')) {
+    console.log('Running migration: Adding viewport to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN viewport TEXT`);
+    console.log('Migration complete: viewport added to widgets');
+  }
+
+  // Migration: Add pre-capture CSS and JavaScript hooks to widgets
+  if (!columnExists(db, 'widgets', 'pre_capture_css')) {
+    console.log('Running migration: Adding pre-capture hooks to widgets...');
+    db.exec(`
+      ALTER TABLE widgets ADD COLUMN pre_capture_css TEXT;
+      ALTER TABLE widgets ADD COLUMN pre_capture_js TEXT;
+    `);
+    console.log('Migration complete: pre-capture hooks added to widgets');
+  }
+
+  // Migration: Add hidden_selectors to widgets (JSON array of selectors hidden before capture)
+  if (!columnExists(db, 'widgets', 'hidden_selectors')) {
+    console.log('Running migration: Adding hidden_selectors to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN hidden_selectors TEXT NOT NULL DEFAULT '[]'`);
+    console.log('Migration complete: hidden_selectors added to widgets');
+  }
+
+  // Migration: Add macro to widgets (JSON array of interaction steps replayed before capture)
+  if (!columnExists(db, 'widgets', 'macro')) {
+    console.log('Running migration: Adding macro to widgets...');
+    db.exec(`ALTER TABLE widgets ADD COLUMN macro TEXT NOT NULL DEFAULT '[]'`);
+    console.log('Migration complete: macro added to widgets');
+  }
+
+  // Migration: Add login_steps to credentials (JSON array of multi-page login steps)
+  for (const table of ['widget_credentials', 'credential_groups']) {
+    if (!columnExists(db, table, 'login_steps')) {
+      console.log(`Running migration: Adding login_steps to ${table}...`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN login_steps TEXT NOT NULL DEFAULT '[]'`);
+      console.log(`Migration complete: login_steps added to ${table}`);
+    }
+  }
+
+  // Migration: Add TOTP two-factor secret and code field to credentials
+  for (const table of ['widget_credentials', 'credential_groups']) {
+    if (!columnExists(db, table, 'encrypted_totp_secret')) {
+      console.log(`Running migration: Adding TOTP columns to ${table}...`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN encrypted_totp_secret BLOB`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN totp_selector TEXT`);
+      console.log(`Migration complete: TOTP columns added to ${table}`);
+    }
+  }
+
+  // Migration: Add login success checks (element or URL of the signed-in app) to credentials
+  for (const table of ['widget_credentials', 'credential_groups']) {
+    if (!columnExists(db, table, 'success_selector')) {
+      console.log(`Running migration: Adding login success checks to ${table}...`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN success_selector TEXT`);
+      db.exec(`ALTER TABLE ${table} ADD COLUMN success_url TEXT`);
+      console.log(`Migration complete: login success checks added to ${table}`);
+    }
+  }
+}
+
+/**
+ * SQLite can't alter a CHECK constraint, so rebuild the widgets table from its
+ * current definition with the new list of selector types
+ */
+function migrateWidgetSelectorTypes(db: Database.Database): void {
+  const table = db.prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='widgets'`).get() as {
+    sql: string;
+  };
+  const oldCheck = "CHECK(selector_type IN ('css', 'crop'))";
+  if (!table.sql.includes(oldCheck)) {
+    return;
+  }
+
+  console.log('Running migration: Adding text selector type to widgets...');
+  const newSql = table.sql
+    .replace(oldCheck, "CHECK(selector_type IN ('css', 'crop', 'text'))")
+    .replace(/^CREATE TABLE\s+"?widgets"?/, 'CREATE TABLE widgets_new');
+
+  // With foreign keys on, dropping the old table deletes its rows and cascades to the
+  // credentials, snapshots, alerts and values of every widget. The pragma is ignored
+  // inside a transaction, so turn it off around it.
+  const foreignKeys = db.pragma('foreign_keys', { simple: true });
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(newSql);
+      db.exec(`
+        INSERT INTO widgets_new SELECT * FROM widgets;
+        DROP TABLE widgets;
+        ALTER TABLE widgets_new RENAME TO widgets;
+        CREATE INDEX idx_widgets_dashboard_id ON widgets(dashboard_id);
+      `);
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Widgets table rebuild broke ${violations.length} foreign key references`);
+      }
+    })();
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+  console.log('Migration complete: text selector type added to widgets');
+}
+
+function columnExists(db: Database.Database, table: string, column: string): boolean {
+  const result = db
+    .prepare(`SELECT COUNT(*) as count FROM pragma_table_info(?) WHERE name = ?`)
+    .get(table, column) as { count: number };
+  return result.count > 0;
 }
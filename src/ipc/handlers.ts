@@ -21,17 +21,67 @@ import type {
   SaveCredentialsData,
   CreateCredentialGroupData,
   UpdateCredentialGroupData,
+  MacroStep,
+  SessionCookie,
 } from '../types/dashboard';
 import {
   dashboardFromRow as todashhboard,
   widgetFromRow as toWidget,
   credentialGroupFromRow as toCredentialGroup,
 } from '../types/dashboard';
+import {
+  requestCapture,
+  requestPartitionCapture,
+  getLatestCapture,
+  getCaptureState,
+  getWidgetSchedule,
+  debugMacro,
+  scheduleWidget,
+  scheduleDashboard,
+  unscheduleWidget,
+  rescheduleAllWidgets,
+} from '../capture/scheduler';
+import { destroyPartitionWindows } from '../capture/window-pool';
+import {
+  deleteWidgetSnapshots,
+  listSnapshots,
+  getSnapshot,
+  readSnapshotDataUrl,
+  pruneWidgetSnapshots,
+} from '../capture/snapshots';
+import { diffSnapshots } from '../capture/diff';
+import { listAlerts, acknowledgeAlerts, clearAlerts, deleteWidgetAlerts } from '../capture/alerts';
+import { listSessionStatuses } from '../capture/sessions';
+import {
+  listSessionPartitions,
+  listSessionCookies,
+  removeSessionCookie,
+  clearSessionCookies,
+  exportSession,
+  importSession,
+  SessionFileError,
+} from '../capture/session-data';
+import { listWidgetValues, deleteWidgetValues } from '../capture/values';
+import { generateTotp } from '../capture/totp';
 
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+// Error response for a TOTP secret codes can't be generated from, or null when
+// it is usable (or empty, for credentials without 2FA)
+function validateTotpSecret(secret: string | undefined) {
+  if (!secret) {
+    return null;
+  }
+  try {
+    generateTotp(secret);
+    return null;
+  } catch (error) {
+    return { success: false, error: { code: 'INVALID_TOTP_SECRET', message: (error as Error).message } };
+  }
+}
+
 /**
  * Register all IPC handlers
  */
@@ -154,6 +204,7 @@ export function registerIPCHandlers(): void {
 
       // Re-open the database at the new location
       getDatabase();
+      rescheduleAllWidgets();
 
       return {
         success: true,
@@ -201,6 +252,7 @@ export function registerIPCHandlers(): void {
 
       // Re-open the database at the new location
       getDatabase();
+      rescheduleAllWidgets();
 
       return { success: true, data: { newPath: selectedPath } };
     } catch (error) {
@@ -277,10 +329,17 @@ export function registerIPCHandlers(): void {
         updates.push('grid_columns = ?');
         values.push(data.gridColumns);
       }
+      if (data.refreshPaused !== undefined) {
+        updates.push('refresh_paused = ?');
+        values.push(data.refreshPaused ? 1 : 0);
+      }
 
       values.push(id);
       db.prepare(`UPDATE dashboards SET ${updates.join(', ')} WHERE id = ?`).run(...values);
       const row = db.prepare('SELECT * FROM dashboards WHERE id = ?').get(id) as DashboardRow;
+      if (data.refreshPaused !== undefined) {
+        scheduleDashboard(id);
+      }
       return { success: true, data: todashhboard(row) };
     } catch (error) {
       return { success: false, error: { code: 'UPDATE_DASHBOARD_ERROR', message: String(error) } };
@@ -290,7 +349,14 @@ export function registerIPCHandlers(): void {
   ipcMain.handle('dashboards:delete', async (_, id: string) => {
     try {
       const db = getDatabase();
+      const widgetIds = db.prepare('SELECT id FROM widgets WHERE dashboard_id = ?').all(id) as { id: string }[];
       db.prepare('DELETE FROM dashboards WHERE id = ?').run(id);
+      for (const widget of widgetIds) {
+        unscheduleWidget(widget.id);
+        deleteWidgetSnapshots(widget.id);
+        deleteWidgetValues(widget.id);
+      }
+      clearAlerts(id);
       return { success: true };
     } catch (error) {
       return { success: false, error: { code: 'DELETE_DASHBOARD_ERROR', message: String(error) } };
@@ -336,34 +402,49 @@ export function registerIPCHandlers(): void {
         }
       }
 
-      db.prepare(`
-        INSERT INTO widgets (
-          id, dashboard_id, name, url, selector_type, selector_data,
-          grid_col, grid_row, grid_col_span, grid_row_span,
-          refresh_interval, zoom_level, partition, has_credentials,
-          credential_group_id, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run(
+      const columns: Record<string, string | number | null> = {
         id,
-        data.dashboardId,
-        data.name,
-        data.url,
-        data.selectorType,
-        JSON.stringify(data.selectorData),
-        data.gridCol ?? 0,
-        data.gridRow ?? 0,
-        data.gridColSpan ?? 4,
-        data.gridRowSpan ?? 3,
-        data.refreshInterval ?? 300,
-        data.zoomLevel ?? 1.0,
+        dashboard_id: data.dashboardId,
+        name: data.name,
+        url: data.url,
+        selector_type: data.selectorType,
+        selector_data: JSON.stringify(data.selectorData),
+        grid_col: data.gridCol ?? 0,
+        grid_row: data.gridRow ?? 0,
+        grid_col_span: data.gridColSpan ?? 4,
+        grid_row_span: data.gridRowSpan ?? 3,
+        refresh_interval: data.refreshInterval ?? 300,
+        zoom_level: data.zoomLevel ?? 1.0,
+        viewport: data.viewport ? JSON.stringify(data.viewport) : null,
+        hidden_selectors: JSON.stringify(data.hiddenSelectors ?? []),
+        macro: JSON.stringify(data.macro ?? []),
         partition,
-        hasCredentials,
-        credentialGroupId,
-        now,
-        now
+        has_credentials: hasCredentials,
+        credential_group_id: credentialGroupId,
+        created_at: now,
+        updated_at: now,
+      };
+      // Settings copied from another widget; left out, they keep the column defaults
+      if (data.displayMode !== undefined) columns.display_mode = data.displayMode;
+      if (data.captureOptions !== undefined) columns.capture_options = JSON.stringify(data.captureOptions);
+      if (data.preCaptureCss !== undefined) columns.pre_capture_css = data.preCaptureCss || null;
+      if (data.preCaptureJs !== undefined) columns.pre_capture_js = data.preCaptureJs || null;
+      if (data.waitStrategy !== undefined) {
+        columns.wait_strategy = data.waitStrategy ? JSON.stringify(data.waitStrategy) : null;
+      }
+      if (data.snapshotRetentionCount !== undefined) columns.snapshot_retention_count = data.snapshotRetentionCount;
+      if (data.snapshotRetentionDays !== undefined) columns.snapshot_retention_days = data.snapshotRetentionDays;
+      if (data.alertMode !== undefined) columns.alert_mode = data.alertMode;
+      if (data.alertThreshold !== undefined) columns.alert_threshold = data.alertThreshold;
+      if (data.rules !== undefined) columns.rules = JSON.stringify(data.rules);
+
+      const names = Object.keys(columns);
+      db.prepare(`INSERT INTO widgets (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`).run(
+        ...Object.values(columns)
       );
 
       const row = db.prepare('SELECT * FROM widgets WHERE id = ?').get(id) as WidgetRow;
+      scheduleWidget(id);
       return { success: true, data: toWidget(row) };
     } catch (error) {
       return { success: false, error: { code: 'CREATE_WIDGET_ERROR', message: String(error) } };
@@ -423,10 +504,66 @@ export function registerIPCHandlers(): void {
         updates.push('refresh_interval = ?');
         values.push(data.refreshInterval);
       }
+      if (data.refreshPaused !== undefined) {
+        updates.push('refresh_paused = ?');
+        values.push(data.refreshPaused ? 1 : 0);
+      }
       if (data.zoomLevel !== undefined) {
         updates.push('zoom_level = ?');
         values.push(data.zoomLevel);
       }
+      if (data.displayMode !== undefined) {
+        updates.push('display_mode = ?');
+        values.push(data.displayMode);
+      }
+      if (data.preCaptureCss !== undefined) {
+        updates.push('pre_capture_css = ?');
+        values.push(data.preCaptureCss || null);
+      }
+      if (data.preCaptureJs !== undefined) {
+        updates.push('pre_capture_js = ?');
+        values.push(data.preCaptureJs || null);
+      }
+      if (data.hiddenSelectors !== undefined) {
+        updates.push('hidden_selectors = ?');
+        values.push(JSON.stringify(data.hiddenSelectors));
+      }
+      if (data.macro !== undefined) {
+        updates.push('macro = ?');
+        values.push(JSON.stringify(data.macro));
+      }
+      if (data.viewport !== undefined) {
+        updates.push('viewport = ?');
+        values.push(JSON.stringify(data.viewport));
+      }
+      if (data.captureOptions !== undefined) {
+        updates.push('capture_options = ?');
+        values.push(JSON.stringify(data.captureOptions));
+      }
+      if (data.waitStrategy !== undefined) {
+        updates.push('wait_strategy = ?');
+        values.push(data.waitStrategy ? JSON.stringify(data.waitStrategy) : null);
+      }
+      if (data.snapshotRetentionCount !== undefined) {
+        updates.push('snapshot_retention_count = ?');
+        values.push(data.snapshotRetentionCount);
+      }
+      if (data.snapshotRetentionDays !== undefined) {
+        updates.push('snapshot_retention_days = ?');
+        values.push(data.snapshotRetentionDays);
+      }
+      if (data.alertMode !== undefined) {
+        updates.push('alert_mode = ?');
+        values.push(data.alertMode);
+      }
+      if (data.alertThreshold !== undefined) {
+        updates.push('alert_threshold = ?');
+        values.push(data.alertThreshold);
+      }
+      if (data.rules !== undefined) {
+        updates.push('rules = ?');
+        values.push(JSON.stringify(data.rules));
+      }
 
       // Handle credential group association
       if (data.credentialGroupId !== undefined) {
@@ -457,6 +594,10 @@ export function registerIPCHandlers(): void {
       values.push(id);
       db.prepare(`UPDATE widgets SET ${updates.join(', ')} WHERE id = ?`).run(...values);
       const row = db.prepare('SELECT * FROM widgets WHERE id = ?').get(id) as WidgetRow;
+      scheduleWidget(id);
+      if (data.snapshotRetentionCount !== undefined || data.snapshotRetentionDays !== undefined) {
+        pruneWidgetSnapshots(id);
+      }
       return { success: true, data: toWidget(row) };
     } catch (error) {
       return { success: false, error: { code: 'UPDATE_WIDGET_ERROR', message: String(error) } };
@@ -467,6 +608,10 @@ export function registerIPCHandlers(): void {
     try {
       const db = getDatabase();
       db.prepare('DELETE FROM widgets WHERE id = ?').run(id);
+      unscheduleWidget(id);
+      deleteWidgetSnapshots(id);
+      deleteWidgetAlerts(id);
+      deleteWidgetValues(id);
       return { success: true };
     } catch (error) {
       return { success: false, error: { code: 'DELETE_WIDGET_ERROR', message: String(error) } };
@@ -495,10 +640,198 @@ export function registerIPCHandlers(): void {
     }
   });
 
+  // ============= Capture =============
+
+  ipcMain.handle('capture:request', async (_, widgetId: string) => {
+    try {
+      requestCapture(widgetId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: { code: 'REQUEST_CAPTURE_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('capture:getLatest', async (_, widgetId: string) => {
+    try {
+      return {
+        success: true,
+        data: {
+          result: getLatestCapture(widgetId),
+          state: getCaptureState(widgetId),
+          schedule: getWidgetSchedule(widgetId),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: { code: 'GET_LATEST_CAPTURE_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('capture:debugMacro', async (_, widgetId: string, steps: MacroStep[]) => {
+    try {
+      return { success: true, data: await debugMacro(widgetId, steps) };
+    } catch (error) {
+      return { success: false, error: { code: 'DEBUG_MACRO_ERROR', message: String(error) } };
+    }
+  });
+
+  // ============= Snapshots =============
+
+  ipcMain.handle('snapshots:list', async (_, widgetId: string) => {
+    try {
+      return { success: true, data: listSnapshots(widgetId) };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_SNAPSHOTS_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('snapshots:getImage', async (_, id: string) => {
+    try {
+      const snapshot = getSnapshot(id);
+      const data = snapshot ? readSnapshotDataUrl(snapshot) : null;
+      if (!data) {
+        return { success: false, error: { code: 'SNAPSHOT_NOT_FOUND', message: 'Snapshot not found' } };
+      }
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: { code: 'GET_SNAPSHOT_IMAGE_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('snapshots:diff', async (_, baseId: string, compareId: string) => {
+    try {
+      const base = getSnapshot(baseId);
+      const compare = getSnapshot(compareId);
+      if (!base || !compare) {
+        return { success: false, error: { code: 'SNAPSHOT_NOT_FOUND', message: 'Snapshot not found' } };
+      }
+      return { success: true, data: diffSnapshots(base, compare) };
+    } catch (error) {
+      return { success: false, error: { code: 'DIFF_SNAPSHOTS_ERROR', message: String(error) } };
+    }
+  });
+
+  // ============= Values =============
+
+  ipcMain.handle('values:list', async (_, widgetId: string, since: number) => {
+    try {
+      return { success: true, data: listWidgetValues(widgetId, since) };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_VALUES_ERROR', message: String(error) } };
+    }
+  });
+
+  // ============= Alerts =============
+
+  ipcMain.handle('alerts:list', async (_, dashboardId: string) => {
+    try {
+      return { success: true, data: listAlerts(dashboardId) };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_ALERTS_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('alerts:acknowledge', async (_, dashboardId: string, widgetId?: string) => {
+    try {
+      acknowledgeAlerts(dashboardId, widgetId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: { code: 'ACKNOWLEDGE_ALERTS_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('alerts:clear', async (_, dashboardId: string) => {
+    try {
+      clearAlerts(dashboardId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: { code: 'CLEAR_ALERTS_ERROR', message: String(error) } };
+    }
+  });
+
+  // ============= Sessions =============
+
+  ipcMain.handle('sessions:list', async () => {
+    try {
+      return { success: true, data: listSessionStatuses() };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_SESSIONS_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:partitions', async () => {
+    try {
+      return { success: true, data: listSessionPartitions() };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_PARTITIONS_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:cookies', async (_, partition: string) => {
+    try {
+      return { success: true, data: await listSessionCookies(partition) };
+    } catch (error) {
+      return { success: false, error: { code: 'LIST_COOKIES_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:removeCookie', async (_, partition: string, cookie: SessionCookie) => {
+    try {
+      await removeSessionCookie(partition, cookie);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: { code: 'REMOVE_COOKIE_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:clearCookies', async (_, partition: string) => {
+    try {
+      await clearSessionCookies(partition);
+      // Pooled windows still show the pages loaded while signed in
+      destroyPartitionWindows(partition);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: { code: 'CLEAR_COOKIES_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:export', async (_, partition: string, filePath: string, passphrase: string) => {
+    try {
+      if (!passphrase) {
+        return { success: false, error: { code: 'PASSPHRASE_REQUIRED', message: 'Enter a passphrase for the file' } };
+      }
+      return { success: true, data: await exportSession(partition, filePath, passphrase) };
+    } catch (error) {
+      return { success: false, error: { code: 'EXPORT_SESSION_ERROR', message: String(error) } };
+    }
+  });
+
+  ipcMain.handle('sessions:import', async (_, partition: string, filePath: string, passphrase: string) => {
+    try {
+      if (!passphrase) {
+        return { success: false, error: { code: 'PASSPHRASE_REQUIRED', message: 'Enter the passphrase of the file' } };
+      }
+      const summary = await importSession(partition, filePath, passphrase);
+      // Capture the partition's widgets with the imported session, in fresh windows
+      destroyPartitionWindows(partition);
+      requestPartitionCapture(partition);
+      return { success: true, data: summary };
+    } catch (error) {
+      if (error instanceof SessionFileError) {
+        return { success: false, error: { code: error.code, message: error.message } };
+      }
+      return { success: false, error: { code: 'IMPORT_SESSION_ERROR', message: String(error) } };
+    }
+  });
+
   // ============= Credentials =============
 
   ipcMain.handle('credentials:save', async (_, widgetId: string, credentials: SaveCredentialsData) => {
     try {
+      const invalidTotp = validateTotpSecret(credentials.totpSecret);
+      if (invalidTotp) {
+        return invalidTotp;
+      }
+
       const db = getDatabase();
       const now = Date.now();
 
@@ -509,9 +842,9 @@ export function registerIPCHandlers(): void {
       db.prepare(`
         INSERT INTO widget_credentials (
           widget_id, encrypted_username, encrypted_password,
-          login_url, username_selector, password_selector, submit_selector,
-          created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          login_url, username_selector, password_selector, submit_selector, login_steps,
+          encrypted_totp_secret, totp_selector, success_selector, success_url, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(widget_id) DO UPDATE SET
           encrypted_username = excluded.encrypted_username,
           encrypted_password = excluded.encrypted_password,
@@ -519,6 +852,11 @@ export function registerIPCHandlers(): void {
           username_selector = excluded.username_selector,
           password_selector = excluded.password_selector,
           submit_selector = excluded.submit_selector,
+          login_steps = excluded.login_steps,
+          encrypted_totp_secret = excluded.encrypted_totp_secret,
+          totp_selector = excluded.totp_selector,
+          success_selector = excluded.success_selector,
+          success_url = excluded.success_url,
           updated_at = excluded.updated_at
       `).run(
         widgetId,
@@ -528,6 +866,11 @@ export function registerIPCHandlers(): void {
         credentials.usernameSelector,
         credentials.passwordSelector,
         credentials.submitSelector,
+        JSON.stringify(credentials.loginSteps ?? []),
+        credentials.totpSecret ? safeStorage.encryptString(credentials.totpSecret) : null,
+        credentials.totpSelector || null,
+        credentials.successSelector || null,
+        credentials.successUrl || null,
         now,
         now
       );
@@ -566,6 +909,11 @@ export function registerIPCHandlers(): void {
           usernameSelector: row.username_selector,
           passwordSelector: row.password_selector,
           submitSelector: row.submit_selector,
+          loginSteps: JSON.parse(row.login_steps),
+          totpSecret: row.encrypted_totp_secret ? safeStorage.decryptString(row.encrypted_totp_secret) : '',
+          totpSelector: row.totp_selector || '',
+          successSelector: row.success_selector || '',
+          successUrl: row.success_url || '',
         },
       };
     } catch (error) {
@@ -614,6 +962,11 @@ export function registerIPCHandlers(): void {
 
   ipcMain.handle('credentialGroups:create', async (_, data: CreateCredentialGroupData) => {
     try {
+      const invalidTotp = validateTotpSecret(data.totpSecret);
+      if (invalidTotp) {
+        return invalidTotp;
+      }
+
       const db = getDatabase();
       const id = generateId();
       const now = Date.now();
@@ -625,9 +978,9 @@ export function registerIPCHandlers(): void {
       db.prepare(`
         INSERT INTO credential_groups (
           id, name, encrypted_username, encrypted_password,
-          login_url, username_selector, password_selector, submit_selector,
-          partition, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          login_url, username_selector, password_selector, submit_selector, login_steps,
+          encrypted_totp_secret, totp_selector, success_selector, success_url, partition, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         id,
         data.name,
@@ -637,6 +990,11 @@ export function registerIPCHandlers(): void {
         data.usernameSelector,
         data.passwordSelector,
         data.submitSelector || null,
+        JSON.stringify(data.loginSteps ?? []),
+        data.totpSecret ? safeStorage.encryptString(data.totpSecret) : null,
+        data.totpSelector || null,
+        data.successSelector || null,
+        data.successUrl || null,
         partition,
         now,
         now
@@ -667,6 +1025,11 @@ export function registerIPCHandlers(): void {
 
   ipcMain.handle('credentialGroups:update', async (_, id: string, data: UpdateCredentialGroupData) => {
     try {
+      const invalidTotp = validateTotpSecret(data.totpSecret);
+      if (invalidTotp) {
+        return invalidTotp;
+      }
+
       const db = getDatabase();
       const now = Date.now();
       const updates: string[] = ['updated_at = ?'];
@@ -700,6 +1063,26 @@ export function registerIPCHandlers(): void {
         updates.push('submit_selector = ?');
         values.push(data.submitSelector || null);
       }
+      if (data.loginSteps !== undefined) {
+        updates.push('login_steps = ?');
+        values.push(JSON.stringify(data.loginSteps));
+      }
+      if (data.totpSecret !== undefined) {
+        updates.push('encrypted_totp_secret = ?');
+        values.push(data.totpSecret ? safeStorage.encryptString(data.totpSecret) : null);
+      }
+      if (data.totpSelector !== undefined) {
+        updates.push('totp_selector = ?');
+        values.push(data.totpSelector || null);
+      }
+      if (data.successSelector !== undefined) {
+        updates.push('success_selector = ?');
+        values.push(data.successSelector || null);
+      }
+      if (data.successUrl !== undefined) {
+        updates.push('success_url = ?');
+        values.push(data.successUrl || null);
+      }
 
       values.push(id);
       db.prepare(`UPDATE credential_groups SET ${updates.join(', ')} WHERE id = ?`).run(...values);
@@ -734,8 +1117,17 @@ export function registerIPCHandlers(): void {
         `).run(`widget-${widget.id}`, now, widget.id);
       }
 
+      const group = db.prepare('SELECT partition FROM credential_groups WHERE id = ?').get(id) as
+        | { partition: string }
+        | undefined;
+
       // Then delete the group
       db.prepare('DELETE FROM credential_groups WHERE id = ?').run(id);
+
+      // Its widgets now use their own partitions, so the group's warm capture window is unused
+      if (group) {
+        destroyPartitionWindows(group.partition);
+      }
       return { success: true };
     } catch (error) {
       return { success: false, error: { code: 'DELETE_CREDENTIAL_GROUP_ERROR', message: String(error) } };
@@ -753,12 +1145,14 @@ export function registerIPCHandlers(): void {
 
       const username = safeStorage.decryptString(row.encrypted_username);
       const password = safeStorage.decryptString(row.encrypted_password);
+      const totpSecret = row.encrypted_totp_secret ? safeStorage.decryptString(row.encrypted_totp_secret) : '';
 
       return {
         success: true,
         data: {
           ...toCredentialGroup(row, username),
           password,
+          totpSecret,
         },
       };
     } catch (error) {
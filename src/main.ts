@@ -9,12 +9,18 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-import { app, BrowserWindow, Menu, nativeTheme, screen, ipcMain } from 'electron';
+import { app, BrowserWindow, Menu, nativeTheme, screen, ipcMain, type IpcMainEvent } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import { autoUpdater } from 'electron-updater';
 import { getDatabase } from './database/connection';
 import { registerIPCHandlers } from './ipc/handlers';
+import { applyViewport } from './capture/viewport';
+import { startCaptureScheduler, stopCaptureScheduler, requestPartitionCapture } from './capture/scheduler';
+import { getSignInTarget, type SignInTarget } from './capture/sign-in';
+import { destroyAllCaptureWindows } from './capture/window-pool';
+import { DEFAULT_VIEWPORT, type WidgetViewport, type MacroStep, type LoginStep } from './types/dashboard';
+import type { CredentialPickerSelection } from './types/window';
 import './types/app-config.d';
 
 // Window state persistence
@@ -93,207 +99,24 @@ if (require('electron-squirrel-startup')) {
 let mainWindow: BrowserWindow | null = null;
 let pickerWindow: BrowserWindow | null = null;
 let credentialPickerWindow: BrowserWindow | null = null;
+// Sign-in windows by session partition, so a second request focuses the open one
+const signInWindows = new Map<string, BrowserWindow>();
 
-// Screenshot capture data - uses picker dimensions (1400x900) for consistency
-interface ScreenshotCaptureRequest {
-  url: string;
-  partition: string;
-  selectorType: 'css' | 'crop';
-  selectorData: {
-    selectors?: string[];
-    x?: number;
-    y?: number;
-    width?: number;
-    height?: number;
-    scrollX?: number;
-    scrollY?: number;
-  };
-  credentials?: {
-    username: string;
-    password: string;
-    loginUrl: string;
-    usernameSelector: string;
-    passwordSelector: string;
-    submitSelector: string;
-  };
-}
+// How often the sign-in window checks whether the user is signed in
+const SIGN_IN_POLL_INTERVAL_MS = 1000;
 
-// Picker window dimensions - must match createPickerWindow
-const PICKER_WIDTH = 1920;
-const PICKER_HEIGHT = 1080;
-
-// Create offscreen window for capturing widget screenshots
-// Uses the same dimensions as the picker so crop coordinates match exactly
-const captureWidgetScreenshot = async (request: ScreenshotCaptureRequest): Promise<string | null> => {
-  // Don't use offscreen: true as it has different scaling behavior on HiDPI displays
-  // Instead, create a hidden window that matches the picker window exactly
-  const captureWindow = new BrowserWindow({
-    width: PICKER_WIDTH,
-    height: PICKER_HEIGHT,
-    show: false,
-    // Use content size to ensure the viewport matches exactly
-    useContentSize: true,
-    // Position off-screen so it's truly invisible
-    x: -10000,
-    y: -10000,
-    webPreferences: {
-      contextIsolation: true,
-      nodeIntegration: false,
-      partition: `persist:${request.partition}`,
-    },
-  });
-
-  try {
-    // Load the URL
-    await captureWindow.loadURL(request.url);
-
-    // Wait for DOM to be ready
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // If credentials provided and we're on a login page, perform login
-    if (request.credentials) {
-      const hasPasswordField = await captureWindow.webContents.executeJavaScript(
-        `!!document.querySelector('input[type="password"]')`
-      );
-
-      if (hasPasswordField) {
-        // Perform auto-login
-        const { usernameSelector, passwordSelector, submitSelector, username, password } = request.credentials;
-
-        await captureWindow.webContents.executeJavaScript(`
-          (function() {
-            const usernameEl = document.querySelector(${JSON.stringify(usernameSelector)});
-            const passwordEl = document.querySelector(${JSON.stringify(passwordSelector)});
-            if (usernameEl) {
-              usernameEl.focus();
-              usernameEl.value = ${JSON.stringify(username)};
-              usernameEl.dispatchEvent(new Event('input', { bubbles: true }));
-            }
-            if (passwordEl) {
-              passwordEl.focus();
-              passwordEl.value = ${JSON.stringify(password)};
-              passwordEl.dispatchEvent(new Event('input', { bubbles: true }));
-            }
-          })();
-        `);
-
-        await new Promise(resolve => setTimeout(resolve, 100));
-
-        await captureWindow.webContents.executeJavaScript(`
-          (function() {
-            const submitEl = document.querySelector(${JSON.stringify(submitSelector)});
-            if (submitEl) submitEl.click();
-          })();
-        `);
-
-        // Wait for navigation after login
-        await new Promise(resolve => setTimeout(resolve, 3000));
-
-        // Navigate to target URL if different from login
-        const currentUrl = captureWindow.webContents.getURL().toLowerCase();
-        const targetPath = new URL(request.url).pathname.toLowerCase();
-        const currentPath = new URL(currentUrl).pathname.toLowerCase();
-
-        if (targetPath && targetPath !== '/' && currentPath !== targetPath) {
-          await captureWindow.loadURL(request.url);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-    }
-
-    // Wait for SPA content to render
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    let captureRect: Electron.Rectangle | undefined;
-
-    if (request.selectorType === 'css' && request.selectorData.selectors) {
-      // Scroll to and get bounds of the selected element
-      const elementBounds = await captureWindow.webContents.executeJavaScript(`
-        (function() {
-          const selectors = ${JSON.stringify(request.selectorData.selectors)};
-          const firstElement = selectors.map(s => document.querySelector(s)).find(Boolean);
-          if (firstElement) {
-            firstElement.scrollIntoView({ block: 'start', inline: 'start', behavior: 'instant' });
-            const rect = firstElement.getBoundingClientRect();
-            return { x: Math.round(rect.x), y: Math.round(rect.y), width: Math.round(rect.width), height: Math.round(rect.height) };
-          }
-          return null;
-        })();
-      `);
-
-      // Wait for scroll to complete
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      if (elementBounds) {
-        captureRect = {
-          x: Math.max(0, elementBounds.x),
-          y: Math.max(0, elementBounds.y),
-          width: Math.min(elementBounds.width, PICKER_WIDTH - elementBounds.x),
-          height: Math.min(elementBounds.height, PICKER_HEIGHT - elementBounds.y),
-        };
-      }
-    } else if (request.selectorType === 'crop' && request.selectorData) {
-      // Scroll to crop position - these coordinates come from the picker at same dimensions
-      const { scrollX = 0, scrollY = 0, x = 0, y = 0, width = 800, height = 600 } = request.selectorData;
-
-      // Get the device pixel ratio to understand any scaling
-      const dpr = await captureWindow.webContents.executeJavaScript('window.devicePixelRatio');
-      const innerSize = await captureWindow.webContents.executeJavaScript(
-        '({ width: window.innerWidth, height: window.innerHeight })'
-      );
-      console.log('[Screenshot] Crop capture - DPR:', dpr, 'innerSize:', innerSize, 'crop:', { x, y, width, height, scrollX, scrollY });
-
-      await captureWindow.webContents.executeJavaScript(
-        `window.scrollTo(${scrollX}, ${scrollY})`
-      );
-
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Use the exact crop rectangle from the picker
-      captureRect = {
-        x: Math.max(0, x),
-        y: Math.max(0, y),
-        width: Math.min(width, PICKER_WIDTH - x),
-        height: Math.min(height, PICKER_HEIGHT - y),
-      };
-      console.log('[Screenshot] Final captureRect:', captureRect);
-    }
-
-    // Capture the page
-    const image = await captureWindow.webContents.capturePage(captureRect);
-    const dataUrl = image.toDataURL();
-
-    return dataUrl;
-  } catch (error) {
-    console.error('[Screenshot] Capture failed:', error);
-    return null;
-  } finally {
-    captureWindow.destroy();
-  }
-};
-
-// Register screenshot capture IPC handler
-ipcMain.handle('widget:captureScreenshot', async (_, request: ScreenshotCaptureRequest) => {
-  try {
-    const dataUrl = await captureWidgetScreenshot(request);
-    if (dataUrl) {
-      return { success: true, data: dataUrl };
-    }
-    return { success: false, error: { code: 'CAPTURE_FAILED', message: 'Failed to capture screenshot' } };
-  } catch (error) {
-    return { success: false, error: { code: 'CAPTURE_ERROR', message: String(error) } };
-  }
-});
-
-// Create credential picker window for selecting login form fields
-interface CredentialSelection {
-  usernameSelector: string;
-  passwordSelector: string;
-  submitSelector: string;
-}
-
-const createCredentialPickerWindow = (url: string): Promise<CredentialSelection | null> => {
+// Create credential picker window for selecting login form fields or recording login steps
+const createCredentialPickerWindow = (url: string): Promise<CredentialPickerSelection | null> => {
   return new Promise((resolve) => {
+    // Steps recorded in the picker's record mode, kept here so recording
+    // carries on across the pages of the login
+    const loginSteps: LoginStep[] = [];
+    let recording = false;
+    // Page navigated to since the last recorded step
+    let pendingUrl: string | null = null;
+    // Fields selected so far, for the pages after logging in (the 2FA code field)
+    let fields: unknown = null;
+
     credentialPickerWindow = new BrowserWindow({
       width: 1200,
       height: 800,
@@ -310,9 +133,60 @@ const createCredentialPickerWindow = (url: string): Promise<CredentialSelection
     // Load the target URL
     credentialPickerWindow.loadURL(url);
 
+    const fromPicker = (event: IpcMainEvent) => event.sender === credentialPickerWindow?.webContents;
+
+    // A page change between two steps becomes a wait for that page. Query
+    // strings usually carry one-off state, so only the origin and path are kept.
+    credentialPickerWindow.webContents.on('did-navigate', (_, navigatedUrl: string) => {
+      if (!recording) return;
+      const { origin, pathname } = new URL(navigatedUrl);
+      pendingUrl = origin + pathname;
+    });
+
+    const handleLoginStep = (event: IpcMainEvent, step: LoginStep) => {
+      if (!fromPicker(event)) return;
+      if (pendingUrl) {
+        loginSteps.push({ type: 'wait-for-url', url: pendingUrl });
+        pendingUrl = null;
+      }
+      if (step.type === 'fill' && step.fill === 'username') {
+        // The first text field filled is the username, which is stored with the
+        // credentials rather than the steps. Later ones keep what was typed.
+        const hasUsername = loginSteps.some((s) => s.type === 'fill' && s.fill === 'username' && s.selector !== step.selector);
+        step = hasUsername ? { ...step, fill: 'text' } : { type: 'fill', selector: step.selector, fill: 'username' };
+      }
+      const last = loginSteps[loginSteps.length - 1];
+      // Filling the same field again replaces the earlier value
+      if (last && step.type === 'fill' && last.type === 'fill' && last.selector === step.selector) {
+        loginSteps[loginSteps.length - 1] = step;
+      } else {
+        loginSteps.push(step);
+      }
+    };
+
+    const handleRecording = (event: IpcMainEvent, enabled: boolean) => {
+      if (fromPicker(event)) recording = enabled;
+    };
+
+    const handleFields = (event: IpcMainEvent, state: unknown) => {
+      if (fromPicker(event)) fields = state;
+    };
+
+    // Synchronous so a newly loaded page can resume before the user interacts
+    const handleState = (event: IpcMainEvent) => {
+      event.returnValue = fromPicker(event)
+        ? { recording, stepCount: loginSteps.length, fields }
+        : { recording: false, stepCount: 0, fields: null };
+    };
+
+    ipcMain.on('credentialPicker:loginStep', handleLoginStep);
+    ipcMain.on('credentialPicker:recording', handleRecording);
+    ipcMain.on('credentialPicker:fields', handleFields);
+    ipcMain.on('credentialPicker:state', handleState);
+
     // Handle selection from credential picker
-    const handleSelection = (_: unknown, selection: CredentialSelection) => {
-      resolve(selection);
+    const handleSelection = (_: unknown, selection: Omit<CredentialPickerSelection, 'loginSteps'>) => {
+      resolve({ ...selection, loginSteps });
       if (credentialPickerWindow) {
         credentialPickerWindow.close();
         credentialPickerWindow = null;
@@ -323,6 +197,10 @@ const createCredentialPickerWindow = (url: string): Promise<CredentialSelection
 
     credentialPickerWindow.on('closed', () => {
       ipcMain.removeListener('credentialPicker:selection', handleSelection);
+      ipcMain.removeListener('credentialPicker:loginStep', handleLoginStep);
+      ipcMain.removeListener('credentialPicker:recording', handleRecording);
+      ipcMain.removeListener('credentialPicker:fields', handleFields);
+      ipcMain.removeListener('credentialPicker:state', handleState);
       credentialPickerWindow = null;
       resolve(null);
     });
@@ -342,13 +220,89 @@ ipcMain.handle('credentialPicker:open', async (_, url: string) => {
   }
 });
 
+// Open a visible window on a session partition for the user to sign in by hand.
+// Resolves true once the page shows the user signed in (the window then closes
+// itself), or false when the user closed it first.
+const createSignInWindow = (partition: string, target: SignInTarget): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const signInWindow = new BrowserWindow({
+      width: 1000,
+      height: 760,
+      parent: mainWindow || undefined,
+      modal: false,
+      webPreferences: {
+        contextIsolation: true,
+        nodeIntegration: false,
+        // The widgets' partition, so the session the user signs in to is the one they capture with
+        partition: `persist:${partition}`,
+      },
+      title: 'Sign In',
+    });
+    signInWindows.set(partition, signInWindow);
+    signInWindow.loadURL(target.url);
+
+    let signedIn = false;
+    // Redirects can briefly show a page without the login form, so wait for two checks in a row
+    let matches = 0;
+    const poll = setInterval(async () => {
+      if (signInWindow.isDestroyed()) return;
+      const done = await signInWindow.webContents
+        .executeJavaScript(`!!(${target.signedInExpression})`)
+        .catch(() => false);
+      matches = done ? matches + 1 : 0;
+      if (matches >= 2 && !signInWindow.isDestroyed()) {
+        signedIn = true;
+        signInWindow.close();
+      }
+    }, SIGN_IN_POLL_INTERVAL_MS);
+
+    signInWindow.on('closed', () => {
+      clearInterval(poll);
+      signInWindows.delete(partition);
+      resolve(signedIn);
+    });
+  });
+};
+
+// Register sign-in IPC handler. Widgets in the partition are captured again
+// afterwards, which also tells whether a window closed by hand was signed in.
+ipcMain.handle('sessions:signIn', async (_, partition: string) => {
+  try {
+    const open = signInWindows.get(partition);
+    if (open) {
+      open.focus();
+      return { success: true, data: false };
+    }
+
+    const target = getSignInTarget(partition);
+    if (!target) {
+      return { success: false, error: { code: 'NO_SIGN_IN_URL', message: 'No login page or widget to sign in to' } };
+    }
+    const signedIn = await createSignInWindow(partition, target);
+    requestPartitionCapture(partition);
+    return { success: true, data: signedIn };
+  } catch (error) {
+    return { success: false, error: { code: 'SIGN_IN_ERROR', message: String(error) } };
+  }
+});
+
 // Create widget picker window for element selection
 // partition parameter allows sharing session with the widget that will be created/edited
-const createPickerWindow = (url: string, partition?: string): Promise<{ url: string; selectorType: string; selectorData: unknown } | null> => {
+// viewport must match the widget's so crop coordinates line up with the capture window
+const createPickerWindow = (
+  url: string,
+  partition?: string,
+  viewport: WidgetViewport = DEFAULT_VIEWPORT
+): Promise<{ url: string; selectorType: string; selectorData: unknown; macroSteps: MacroStep[] } | null> => {
   return new Promise((resolve) => {
+    // Steps recorded in the picker's record mode. Kept here rather than in the
+    // page so recording carries on when a recorded click navigates.
+    const macroSteps: MacroStep[] = [];
+    let recording = false;
+
     pickerWindow = new BrowserWindow({
-      width: PICKER_WIDTH,
-      height: PICKER_HEIGHT,
+      width: viewport.width,
+      height: viewport.height,
       parent: mainWindow || undefined,
       modal: false,
       // Use content size to ensure viewport matches capture window exactly
@@ -362,13 +316,40 @@ const createPickerWindow = (url: string, partition?: string): Promise<{ url: str
       },
       title: 'Select Widget Content',
     });
+    applyViewport(pickerWindow, viewport);
 
     // Load the target URL
     pickerWindow.loadURL(url);
 
+    const fromPicker = (event: IpcMainEvent) => event.sender === pickerWindow?.webContents;
+
+    const handleMacroStep = (event: IpcMainEvent, step: MacroStep) => {
+      if (!fromPicker(event)) return;
+      const last = macroSteps[macroSteps.length - 1];
+      // Typing into the same field again replaces the earlier value
+      if (last && step.type === 'type' && last.type === 'type' && last.selector === step.selector) {
+        macroSteps[macroSteps.length - 1] = step;
+      } else {
+        macroSteps.push(step);
+      }
+    };
+
+    const handleMacroRecording = (event: IpcMainEvent, enabled: boolean) => {
+      if (fromPicker(event)) recording = enabled;
+    };
+
+    // Synchronous so a newly loaded page can resume recording before the user interacts
+    const handleMacroState = (event: IpcMainEvent) => {
+      event.returnValue = { recording: fromPicker(event) && recording, stepCount: macroSteps.length };
+    };
+
+    ipcMain.on('picker:macroStep', handleMacroStep);
+    ipcMain.on('picker:macroRecording', handleMacroRecording);
+    ipcMain.on('picker:macroState', handleMacroState);
+
     // Handle selection from picker
     const handleSelection = (_: unknown, selection: { url: string; selectorType: string; selectorData: unknown }) => {
-      resolve(selection);
+      resolve({ ...selection, macroSteps });
       if (pickerWindow) {
         pickerWindow.close();
         pickerWindow = null;
@@ -379,6 +360,9 @@ const createPickerWindow = (url: string, partition?: string): Promise<{ url: str
 
     pickerWindow.on('closed', () => {
       ipcMain.removeListener('picker:selection', handleSelection);
+      ipcMain.removeListener('picker:macroStep', handleMacroStep);
+      ipcMain.removeListener('picker:macroRecording', handleMacroRecording);
+      ipcMain.removeListener('picker:macroState', handleMacroState);
       pickerWindow = null;
       resolve(null);
     });
@@ -387,9 +371,9 @@ const createPickerWindow = (url: string, partition?: string): Promise<{ url: str
 
 // Register widget picker IPC handler
 // partition parameter allows the picker to share session with the widget
-ipcMain.handle('widgetPicker:open', async (_, url: string, partition?: string) => {
+ipcMain.handle('widgetPicker:open', async (_, url: string, partition?: string, viewport?: WidgetViewport) => {
   try {
-    const selection = await createPickerWindow(url, partition);
+    const selection = await createPickerWindow(url, partition, viewport);
     if (selection) {
       mainWindow?.webContents.send('widgetPicker:selectionComplete', selection);
       return { success: true, data: selection };
@@ -620,6 +604,10 @@ app.whenReady().then(() => {
   registerIPCHandlers();
   console.log('[App] IPC handlers registered');
 
+  // Start the capture scheduler (owns all widget refresh timers)
+  startCaptureScheduler(() => mainWindow);
+  console.log('[App] Capture scheduler started');
+
   // Build menu
   buildMenu();
 
@@ -639,6 +627,12 @@ app.on('window-all-closed', () => {
   app.quit();
 });
 
+// Stop pending captures and close pooled capture windows before quitting
+app.on('will-quit', () => {
+  stopCaptureScheduler();
+  destroyAllCaptureWindows();
+});
+
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
   console.error('[App] Uncaught exception:', error);
@@ -2,12 +2,35 @@
  * Picker Preload Script for My Dashboards
  *
  * This preload script is injected into the picker window to enable
- * element selection (CSS selector) and crop region selection.
+ * element selection (CSS selector) and crop region selection, plus a hide
+ * mode for marking overlays (cookie banners, chat bubbles) to hide before
+ * every capture and a record mode for the clicks and typing needed to reach
+ * the right view. Elements inside open shadow roots and same-origin iframes
+ * can be selected; their selectors pierce into them with ' >>> '.
  */
 
 /* eslint-disable no-undef */
 import { ipcRenderer } from 'electron';
 
+// Fallback ways of finding a selected element (see src/capture/locators.ts)
+interface LocatorCandidate {
+  strategy: 'id' | 'attribute' | 'text' | 'css' | 'xpath';
+  value: string;
+}
+
+interface ElementLocator {
+  candidates: LocatorCandidate[];
+  fingerprint: {
+    tagName: string;
+    id: string;
+    classes: string[];
+    attributes: Record<string, string>;
+    text: string;
+    width: number;
+    height: number;
+  };
+}
+
 interface CropRegion {
   x: number;
   y: number;
@@ -15,15 +38,27 @@ interface CropRegion {
   height: number;
   scrollX: number;
   scrollY: number;
+  // Element the region is positioned relative to at capture time
+  anchor?: { locator: ElementLocator; offsetX: number; offsetY: number };
 }
 
 interface Selection {
   url: string;
   selectorType: 'css' | 'crop';
-  selectorData: { selectors: string[] } | CropRegion;
+  selectorData: { selectors: string[]; locators: ElementLocator[] } | CropRegion;
+  // Elements marked in hide mode, hidden before every capture
+  hiddenSelectors: string[];
 }
 
-let mode: 'css' | 'crop' | null = null;
+// Recorded interaction, replayed before every capture (see src/capture/macro.ts)
+interface MacroStep {
+  type: 'click' | 'type' | 'select' | 'wait';
+  selector?: string;
+  value?: string;
+  delayMs?: number;
+}
+
+let mode: 'css' | 'crop' | 'hide' | 'record' | null = null;
 let highlightOverlay: HTMLElement | null = null;
 let toolbar: HTMLElement | null = null;
 let cropOverlay: HTMLElement | null = null;
@@ -35,8 +70,22 @@ let isCropping = false;
 let selectedElements: Element[] = [];
 let selectedOverlays: HTMLElement[] = [];
 
-// Generate a unique CSS selector for an element
+// Elements hidden in hide mode, most recent last
+let hiddenElements: Element[] = [];
+
+// Recorded steps live in the main process so recording survives navigation
+let recordedStepCount = 0;
+
+// Separates the selectors of a shadow host or iframe and an element inside it
+// (see src/shared/page-scripts.ts)
+const PIERCE_SEPARATOR = ' >>> ';
+// Set on <html> while picking elements, so iframes let clicks through to this document
+const PIERCE_CLASS = 'widget-picker-pierce';
+
+// Generate a unique CSS selector for an element within its document or shadow root
 function generateSelector(element: Element): string {
+  const root = element.getRootNode() as Document | ShadowRoot;
+
   // Try ID first
   if (element.id) {
     return `#${CSS.escape(element.id)}`;
@@ -47,16 +96,16 @@ function generateSelector(element: Element): string {
     const classSelector = Array.from(element.classList)
       .map((c) => `.${CSS.escape(c)}`)
       .join('');
-    if (document.querySelectorAll(classSelector).length === 1) {
+    if (root.querySelectorAll(classSelector).length === 1) {
       return classSelector;
     }
   }
 
-  // Build path from root
+  // Build path from root (a shadow root's top-level elements have no parent element)
   const path: string[] = [];
   let current: Element | null = element;
 
-  while (current && current !== document.body) {
+  while (current && current !== current.ownerDocument.body) {
     let selector = current.tagName.toLowerCase();
 
     if (current.id) {
@@ -65,13 +114,13 @@ function generateSelector(element: Element): string {
       break;
     }
 
-    // Add nth-child if needed
+    // Add nth-of-type if needed (the index counts siblings with the same tag)
     const parent = current.parentElement;
     if (parent) {
       const siblings = Array.from(parent.children).filter((s) => s.tagName === current!.tagName);
       if (siblings.length > 1) {
         const index = siblings.indexOf(current) + 1;
-        selector += `:nth-child(${index})`;
+        selector += `:nth-of-type(${index})`;
       }
     }
 
@@ -82,6 +131,187 @@ function generateSelector(element: Element): string {
   return path.join(' > ');
 }
 
+// Shadow host or iframe element containing an element, or null in the top document
+function getHost(element: Element): Element | null {
+  const root = element.getRootNode();
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+    return (root as ShadowRoot).host;
+  }
+  return (root as Document).defaultView?.frameElement ?? null;
+}
+
+// Selector path from the top document down to an element in shadow roots or iframes
+function generateDeepSelector(element: Element): string {
+  const host = getHost(element);
+  const selector = generateSelector(element);
+  return host ? `${generateDeepSelector(host)}${PIERCE_SEPARATOR}${selector}` : selector;
+}
+
+// Element under a point, looking inside open shadow roots and same-origin iframes
+function deepElementFromPoint(x: number, y: number): Element | null {
+  // Iframes ignore the pointer while picking; let them be hit so we can look inside
+  const html = document.documentElement;
+  const piercing = html.classList.contains(PIERCE_CLASS);
+  html.classList.remove(PIERCE_CLASS);
+  let element = document.elementFromPoint(x, y);
+  html.classList.toggle(PIERCE_CLASS, piercing);
+
+  while (element) {
+    let inner: Element | null = null;
+    if (element.shadowRoot) {
+      inner = element.shadowRoot.elementFromPoint(x, y);
+    } else if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+      const frameDocument = (element as HTMLIFrameElement).contentDocument;
+      if (frameDocument) {
+        const rect = element.getBoundingClientRect();
+        x -= rect.left + element.clientLeft;
+        y -= rect.top + element.clientTop;
+        inner = frameDocument.elementFromPoint(x, y);
+      }
+    }
+    if (!inner || inner === element) break;
+    element = inner;
+  }
+
+  return element;
+}
+
+// Element's box relative to the top-level viewport, adding the offsets of
+// the iframes it is nested in
+function getViewportRect(element: Element): { top: number; left: number; width: number; height: number } {
+  const rect = element.getBoundingClientRect();
+  let top = rect.top;
+  let left = rect.left;
+  for (let frame = element.ownerDocument.defaultView?.frameElement; frame; ) {
+    const frameRect = frame.getBoundingClientRect();
+    top += frameRect.top + frame.clientTop;
+    left += frameRect.left + frame.clientLeft;
+    frame = frame.ownerDocument.defaultView?.frameElement;
+  }
+  return { top, left, width: rect.width, height: rect.height };
+}
+
+// Element a picking click or hover is about: the innermost element under the
+// pointer, unless the pointer is on the picker's own UI (null)
+function getPickTarget(e: MouseEvent): Element | null {
+  const target = e.target as Element;
+  if (target === highlightOverlay || target === toolbar || toolbar?.contains(target)) return null;
+  return deepElementFromPoint(e.clientX, e.clientY) ?? target;
+}
+
+// Attributes that usually survive redesigns, tried in this order
+const STABLE_ATTRIBUTES = ['data-testid', 'data-test', 'data-test-id', 'data-qa', 'data-cy', 'aria-label', 'name', 'title'];
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Record several ways of finding an element, most stable first, plus a fingerprint
+// for when none of them match anymore
+function generateLocator(element: Element): ElementLocator {
+  const candidates: LocatorCandidate[] = [];
+  const add = (strategy: LocatorCandidate['strategy'], value: string | null) => {
+    if (value && !candidates.some((candidate) => candidate.value === value)) {
+      candidates.push({ strategy, value });
+    }
+  };
+
+  // Inside shadow roots and iframes, candidates are unique within the element's
+  // own root and pierce into it from the top document
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const host = getHost(element);
+  const prefix = host ? `${generateDeepSelector(host)}${PIERCE_SEPARATOR}` : '';
+
+  if (element.id && isUniqueSelector(`#${CSS.escape(element.id)}`, root)) {
+    add('id', `${prefix}#${CSS.escape(element.id)}`);
+  }
+  const tagName = element.tagName.toLowerCase();
+  for (const name of STABLE_ATTRIBUTES) {
+    const value = element.getAttribute(name);
+    const selector = value ? `${tagName}[${name}="${CSS.escape(value)}"]` : null;
+    if (selector && isUniqueSelector(selector, root)) {
+      add('attribute', `${prefix}${selector}`);
+    }
+  }
+  // XPath only reaches the top document
+  if (!host) {
+    add('text', getTextAnchor(element));
+  }
+  add('css', generateDeepSelector(element));
+  if (!host) {
+    add('xpath', getXPath(element));
+  }
+
+  const rect = element.getBoundingClientRect();
+  const attributes: Record<string, string> = {};
+  for (const name of [...STABLE_ATTRIBUTES, 'role', 'type']) {
+    const value = element.getAttribute(name);
+    if (value) attributes[name] = value;
+  }
+
+  return {
+    candidates,
+    fingerprint: {
+      tagName,
+      id: element.id,
+      classes: Array.from(element.classList).filter((name) => !name.startsWith('widget-picker-')),
+      attributes,
+      text: normalizeText(element.textContent).slice(0, 100),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+  };
+}
+
+function isUniqueSelector(selector: string, root: Document | ShadowRoot): boolean {
+  try {
+    return root.querySelectorAll(selector).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeText(text: string | null): string {
+  return (text ?? '').trim().replace(/\s+/g, ' ');
+}
+
+// XPath to the element through a short text that is unique on the page: its
+// own text, or a heading or label inside it (e.g. the title of a card)
+function getTextAnchor(element: Element): string | null {
+  const labels = element.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"], label, legend, caption, th');
+  const anchors = [element, ...Array.from(labels)];
+
+  for (const anchor of anchors) {
+    const text = normalizeText(anchor.textContent);
+    if (!text || text.length > 60 || text.includes('"') || anchor.namespaceURI !== HTML_NAMESPACE) continue;
+
+    const xpath = `//${anchor.tagName.toLowerCase()}[normalize-space(.)="${text}"]`;
+    const matches = document.evaluate(`count(${xpath})`, document, null, XPathResult.NUMBER_TYPE, null);
+    if (matches.numberValue !== 1) continue;
+
+    let depth = 0;
+    for (let current: Element | null = anchor; current && current !== element; current = current.parentElement) {
+      depth++;
+    }
+    return depth === 0 ? xpath : `${xpath}/ancestor::*[${depth}]`;
+  }
+
+  return null;
+}
+
+// Absolute XPath with positions among same-tag siblings
+function getXPath(element: Element): string {
+  const steps: string[] = [];
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const tag = current.tagName;
+    const name = current.namespaceURI === HTML_NAMESPACE ? tag.toLowerCase() : `*[name()="${tag}"]`;
+    const siblings = current.parentElement
+      ? Array.from(current.parentElement.children).filter((sibling) => sibling.tagName === tag)
+      : [current];
+    steps.unshift(siblings.length > 1 ? `${name}[${siblings.indexOf(current) + 1}]` : name);
+  }
+
+  return `/${steps.join('/')}`;
+}
+
 // Inject styles without using innerHTML (to avoid CSP issues)
 function injectStyles(): void {
   const style = document.createElement('style');
@@ -157,6 +387,23 @@ function injectStyles(): void {
     #widget-picker-toolbar .selection-count.visible {
       display: block !important;
     }
+    #widget-picker-toolbar .undo-btn,
+    #widget-picker-toolbar .wait-btn {
+      background: #2d2d44 !important;
+      color: #fff !important;
+      display: none !important;
+    }
+    #widget-picker-toolbar .undo-btn.visible,
+    #widget-picker-toolbar .wait-btn.visible {
+      display: block !important;
+    }
+    #widget-picker-highlight.hide-mode {
+      border-color: #dc2626 !important;
+      background: rgba(220, 38, 38, 0.15) !important;
+    }
+    .${PIERCE_CLASS} iframe, .${PIERCE_CLASS} frame {
+      pointer-events: none !important;
+    }
     #widget-picker-highlight {
       position: fixed !important;
       pointer-events: none !important;
@@ -213,6 +460,30 @@ function createToolbar(): void {
   cropBtn.textContent = 'Crop Region';
   cropBtn.addEventListener('click', () => enterCropMode());
 
+  const hideBtn = document.createElement('button');
+  hideBtn.className = 'mode-btn';
+  hideBtn.id = 'btn-hide';
+  hideBtn.textContent = 'Hide Elements';
+  hideBtn.addEventListener('click', () => enterHideMode());
+
+  const recordBtn = document.createElement('button');
+  recordBtn.className = 'mode-btn';
+  recordBtn.id = 'btn-record';
+  recordBtn.textContent = 'Record Steps';
+  recordBtn.addEventListener('click', () => enterRecordMode());
+
+  const waitBtn = document.createElement('button');
+  waitBtn.className = 'wait-btn';
+  waitBtn.id = 'btn-wait';
+  waitBtn.textContent = 'Add 1s Wait';
+  waitBtn.addEventListener('click', () => recordStep({ type: 'wait', delayMs: 1000 }));
+
+  const undoBtn = document.createElement('button');
+  undoBtn.className = 'undo-btn';
+  undoBtn.id = 'btn-undo-hide';
+  undoBtn.textContent = 'Undo Hide';
+  undoBtn.addEventListener('click', () => undoHide());
+
   const selectionCount = document.createElement('span');
   selectionCount.className = 'selection-count';
   selectionCount.id = 'selection-count';
@@ -237,8 +508,12 @@ function createToolbar(): void {
 
   toolbar.appendChild(cssBtn);
   toolbar.appendChild(cropBtn);
+  toolbar.appendChild(hideBtn);
+  toolbar.appendChild(recordBtn);
   toolbar.appendChild(selectionCount);
   toolbar.appendChild(status);
+  toolbar.appendChild(undoBtn);
+  toolbar.appendChild(waitBtn);
   toolbar.appendChild(doneBtn);
   toolbar.appendChild(cancelBtn);
 
@@ -266,6 +541,38 @@ function enterCssMode(): void {
   updateStatus('Click elements to select. Click again to deselect. Click Done when finished.');
 }
 
+// Enter hide mode - clicked elements are hidden now and before every capture
+function enterHideMode(): void {
+  mode = 'hide';
+  updateToolbarState();
+  if (cropOverlay) {
+    cropOverlay.remove();
+    cropOverlay = null;
+  }
+  document.addEventListener('mousemove', handleCssMouseMove);
+  document.addEventListener('click', handleHideClick, true);
+  updateStatus('Click banners or overlays to hide them, then choose a selection mode.');
+}
+
+// Enter record mode - clicks and typing act on the page as usual and are
+// recorded as steps to replay before every capture
+function enterRecordMode(): void {
+  mode = 'record';
+  updateToolbarState();
+  if (cropOverlay) {
+    cropOverlay.remove();
+    cropOverlay = null;
+  }
+  if (highlightOverlay) {
+    highlightOverlay.style.display = 'none';
+  }
+  document.removeEventListener('mousemove', handleCssMouseMove);
+  document.addEventListener('click', handleRecordClick, true);
+  document.addEventListener('change', handleRecordChange, true);
+  ipcRenderer.send('picker:macroRecording', true);
+  updateRecordStatus();
+}
+
 // Enter crop region mode
 function enterCropMode(): void {
   mode = 'crop';
@@ -275,6 +582,7 @@ function enterCropMode(): void {
   }
   document.removeEventListener('mousemove', handleCssMouseMove);
   document.removeEventListener('click', handleCssClick, true);
+  document.removeEventListener('click', handleHideClick, true);
 
   // Create crop overlay
   cropOverlay = document.createElement('div');
@@ -292,8 +600,23 @@ function enterCropMode(): void {
 function updateToolbarState(): void {
   const cssBtn = document.getElementById('btn-css');
   const cropBtn = document.getElementById('btn-crop');
+  const hideBtn = document.getElementById('btn-hide');
   cssBtn?.classList.toggle('active', mode === 'css');
   cropBtn?.classList.toggle('active', mode === 'crop');
+  hideBtn?.classList.toggle('active', mode === 'hide');
+  document.getElementById('btn-record')?.classList.toggle('active', mode === 'record');
+  document.getElementById('btn-wait')?.classList.toggle('visible', mode === 'record');
+  highlightOverlay?.classList.toggle('hide-mode', mode === 'hide');
+  document.documentElement.classList.toggle(PIERCE_CLASS, mode === 'css' || mode === 'hide');
+  if (mode !== 'hide') {
+    document.removeEventListener('click', handleHideClick, true);
+  }
+  if (mode !== 'css') {
+    document.removeEventListener('click', handleCssClick, true);
+  }
+  if (mode !== 'record') {
+    stopRecording();
+  }
 }
 
 // Update status text
@@ -304,17 +627,17 @@ function updateStatus(text: string): void {
   }
 }
 
-// Handle mouse move in CSS mode
+// Handle mouse move in CSS and hide modes
 function handleCssMouseMove(e: MouseEvent): void {
-  if (mode !== 'css' || !highlightOverlay) return;
+  if ((mode !== 'css' && mode !== 'hide') || !highlightOverlay) return;
 
-  const target = e.target as Element;
-  if (target === highlightOverlay || target === toolbar || toolbar?.contains(target)) {
+  const target = getPickTarget(e);
+  if (!target) {
     highlightOverlay.style.display = 'none';
     return;
   }
 
-  const rect = target.getBoundingClientRect();
+  const rect = getViewportRect(target);
   highlightOverlay.style.display = 'block';
   highlightOverlay.style.top = `${rect.top}px`;
   highlightOverlay.style.left = `${rect.left}px`;
@@ -326,9 +649,8 @@ function handleCssMouseMove(e: MouseEvent): void {
 function handleCssClick(e: MouseEvent): void {
   if (mode !== 'css') return;
 
-  const target = e.target as Element;
-  if (target === toolbar || toolbar?.contains(target)) return;
-  if (target === highlightOverlay) return;
+  const target = getPickTarget(e);
+  if (!target) return;
 
   e.preventDefault();
   e.stopPropagation();
@@ -353,9 +675,108 @@ function handleCssClick(e: MouseEvent): void {
   updateSelectionCount();
 }
 
+// Handle click in hide mode
+function handleHideClick(e: MouseEvent): void {
+  if (mode !== 'hide') return;
+
+  const target = getPickTarget(e);
+  if (!target) return;
+
+  e.preventDefault();
+  e.stopPropagation();
+
+  // Inline, since the picker's styles don't apply inside shadow roots and iframes
+  (target as HTMLElement).style.setProperty('visibility', 'hidden', 'important');
+  hiddenElements.push(target);
+  if (highlightOverlay) {
+    highlightOverlay.style.display = 'none';
+  }
+  updateHiddenCount();
+}
+
+// Show the most recently hidden element again
+function undoHide(): void {
+  (hiddenElements.pop() as HTMLElement | undefined)?.style.removeProperty('visibility');
+  updateHiddenCount();
+}
+
+function updateHiddenCount(): void {
+  const undoBtn = document.getElementById('btn-undo-hide');
+  undoBtn?.classList.toggle('visible', hiddenElements.length > 0);
+  if (mode === 'hide') {
+    updateStatus(
+      hiddenElements.length > 0
+        ? `${hiddenElements.length} hidden. Choose a selection mode when done.`
+        : 'Click banners or overlays to hide them, then choose a selection mode.'
+    );
+  }
+}
+
+// Selectors for the hidden elements
+function getHiddenSelectors(): string[] {
+  return hiddenElements.map((el) => generateDeepSelector(el));
+}
+
+// Handle click in record mode - the click goes through to the page
+function handleRecordClick(e: MouseEvent): void {
+  if (mode !== 'record') return;
+
+  if (toolbar?.contains(e.target as Element)) return;
+  // The element clicked inside shadow roots, rather than their host
+  const target = e.composedPath()[0] as Element;
+  // Fields are recorded with the value they end up with (see handleRecordChange)
+  if (isValueField(target)) return;
+
+  recordStep({ type: 'click', selector: generateDeepSelector(target) });
+}
+
+// Handle a field's value being committed in record mode
+function handleRecordChange(e: Event): void {
+  if (mode !== 'record') return;
+
+  const target = e.composedPath()[0] as Element;
+  if (toolbar?.contains(target) || !isValueField(target)) return;
+
+  if (target instanceof HTMLInputElement && target.type === 'password') {
+    updateStatus('Password fields are not recorded. Save credentials for the widget instead.');
+    return;
+  }
+
+  const value = (target as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement).value;
+  recordStep({
+    type: target instanceof HTMLSelectElement ? 'select' : 'type',
+    selector: generateDeepSelector(target),
+    value,
+  });
+}
+
+// Elements recorded by value rather than by click
+function isValueField(el: Element): boolean {
+  if (el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) return true;
+  const clickable = ['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'file'];
+  return el instanceof HTMLInputElement && !clickable.includes(el.type);
+}
+
+function recordStep(step: MacroStep): void {
+  ipcRenderer.send('picker:macroStep', step);
+  // The main process may merge repeated typing into one step, so ask for the count
+  recordedStepCount = ipcRenderer.sendSync('picker:macroState').stepCount;
+  updateRecordStatus();
+}
+
+function stopRecording(): void {
+  document.removeEventListener('click', handleRecordClick, true);
+  document.removeEventListener('change', handleRecordChange, true);
+  ipcRenderer.send('picker:macroRecording', false);
+}
+
+function updateRecordStatus(): void {
+  updateStatus(`Recording: ${recordedStepCount} step(s). Use the page as usual, then choose a selection mode.`);
+}
+
 // Create an overlay for a selected element
 function createSelectedOverlay(element: Element, index: number): void {
-  const rect = element.getBoundingClientRect();
+  const rect = getViewportRect(element);
   const overlay = document.createElement('div');
   overlay.className = 'widget-picker-selected';
   overlay.setAttribute('data-index', String(index));
@@ -386,11 +807,13 @@ function updateSelectionCount(): void {
 function finishSelection(): void {
   if (selectedElements.length === 0) return;
 
-  const selectors = selectedElements.map(el => generateSelector(el));
+  const selectors = selectedElements.map(el => generateDeepSelector(el));
+  const locators = selectedElements.map(el => generateLocator(el));
   const selection: Selection = {
     url: window.location.href,
     selectorType: 'css',
-    selectorData: { selectors },
+    selectorData: { selectors, locators },
+    hiddenSelectors: getHiddenSelectors(),
   };
 
   cleanup();
@@ -452,6 +875,11 @@ function handleCropEnd(e: MouseEvent): void {
     return;
   }
 
+  // Look for the anchor below the picker's overlays
+  cropOverlay?.remove();
+  cropSelection?.remove();
+  const anchor = findCropAnchor(x, y, width, height);
+
   const selection: Selection = {
     url: window.location.href,
     selectorType: 'crop',
@@ -462,13 +890,51 @@ function handleCropEnd(e: MouseEvent): void {
       height,
       scrollX: window.scrollX,
       scrollY: window.scrollY,
+      ...(anchor && { anchor }),
     },
+    hiddenSelectors: getHiddenSelectors(),
   };
 
   cleanup();
   ipcRenderer.send('picker:selection', selection);
 }
 
+// Nearest element containing the crop region to position it by: the innermost
+// one with an id or stable attribute, else the innermost one. Null when only
+// the page itself contains it, since page coordinates are then just as good.
+function findCropAnchor(
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): CropRegion['anchor'] | null {
+  let anchor: Element | null = null;
+  let element = deepElementFromPoint(x + width / 2, y + height / 2);
+
+  while (element && element !== document.body && element !== document.documentElement) {
+    const rect = getViewportRect(element);
+    const contains =
+      rect.left <= x && rect.top <= y && rect.left + rect.width >= x + width && rect.top + rect.height >= y + height;
+    if (contains) {
+      anchor ??= element;
+      const strategy = generateLocator(element).candidates[0]?.strategy;
+      if (strategy === 'id' || strategy === 'attribute') {
+        anchor = element;
+        break;
+      }
+    }
+    element = element.parentElement ?? getHost(element);
+  }
+
+  if (!anchor) return null;
+  const rect = getViewportRect(anchor);
+  return {
+    locator: generateLocator(anchor),
+    offsetX: Math.round(x - rect.left),
+    offsetY: Math.round(y - rect.top),
+  };
+}
+
 // Cancel selection
 function cancel(): void {
   cleanup();
@@ -478,8 +944,12 @@ function cancel(): void {
 // Cleanup UI elements
 function cleanup(): void {
   mode = null;
+  document.documentElement.classList.remove(PIERCE_CLASS);
   document.removeEventListener('mousemove', handleCssMouseMove);
   document.removeEventListener('click', handleCssClick, true);
+  document.removeEventListener('click', handleHideClick, true);
+  document.removeEventListener('click', handleRecordClick, true);
+  document.removeEventListener('change', handleRecordChange, true);
   highlightOverlay?.remove();
   toolbar?.remove();
   cropOverlay?.remove();
@@ -488,6 +958,7 @@ function cleanup(): void {
   selectedOverlays.forEach(overlay => overlay.remove());
   selectedOverlays = [];
   selectedElements = [];
+  hiddenElements = [];
   highlightOverlay = null;
   toolbar = null;
   cropOverlay = null;
@@ -515,6 +986,13 @@ function init(): void {
       createToolbar();
       createHighlightOverlay();
       console.log('[Picker] Toolbar created successfully');
+
+      // Carry on recording after a recorded click navigated to a new page
+      const macroState = ipcRenderer.sendSync('picker:macroState');
+      recordedStepCount = macroState.stepCount;
+      if (macroState.recording) {
+        enterRecordMode();
+      }
     } catch (err) {
       console.error('[Picker] Failed to create toolbar:', err);
     }
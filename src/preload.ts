@@ -16,6 +16,14 @@ import type {
   PickerSelection,
   CreateCredentialGroupData,
   UpdateCredentialGroupData,
+  CaptureResult,
+  CaptureStatus,
+  WidgetSchedule,
+  WidgetAlert,
+  WidgetViewport,
+  MacroStep,
+  SessionStatus,
+  SessionCookie,
 } from './types/dashboard';
 
 // Settings API
@@ -72,30 +80,6 @@ const dashboardsAPI = {
   delete: (id: string) => ipcRenderer.invoke('dashboards:delete', id),
 };
 
-// Screenshot capture request type
-interface ScreenshotCaptureRequest {
-  url: string;
-  partition: string;
-  selectorType: 'css' | 'crop';
-  selectorData: {
-    selectors?: string[];
-    x?: number;
-    y?: number;
-    width?: number;
-    height?: number;
-    scrollX?: number;
-    scrollY?: number;
-  };
-  credentials?: {
-    username: string;
-    password: string;
-    loginUrl: string;
-    usernameSelector: string;
-    passwordSelector: string;
-    submitSelector: string;
-  };
-}
-
 // Widgets API
 const widgetsAPI = {
   list: (dashboardId: string) => ipcRenderer.invoke('widgets:list', dashboardId),
@@ -104,7 +88,84 @@ const widgetsAPI = {
   update: (id: string, data: UpdateWidgetData) => ipcRenderer.invoke('widgets:update', id, data),
   delete: (id: string) => ipcRenderer.invoke('widgets:delete', id),
   updatePositions: (positions: WidgetPosition[]) => ipcRenderer.invoke('widgets:updatePositions', positions),
-  captureScreenshot: (request: ScreenshotCaptureRequest) => ipcRenderer.invoke('widget:captureScreenshot', request),
+};
+
+// Capture API
+// Listeners return an unsubscribe function since every widget subscribes separately
+const captureAPI = {
+  request: (widgetId: string) => ipcRenderer.invoke('capture:request', widgetId),
+  getLatest: (widgetId: string) => ipcRenderer.invoke('capture:getLatest', widgetId),
+  debugMacro: (widgetId: string, steps: MacroStep[]) => ipcRenderer.invoke('capture:debugMacro', widgetId, steps),
+  onResult: (callback: (result: CaptureResult) => void) => {
+    const listener = (_: unknown, result: CaptureResult) => callback(result);
+    ipcRenderer.on('capture:result', listener);
+    return () => {
+      ipcRenderer.removeListener('capture:result', listener);
+    };
+  },
+  onStatus: (callback: (status: CaptureStatus) => void) => {
+    const listener = (_: unknown, status: CaptureStatus) => callback(status);
+    ipcRenderer.on('capture:status', listener);
+    return () => {
+      ipcRenderer.removeListener('capture:status', listener);
+    };
+  },
+  onSchedule: (callback: (schedule: WidgetSchedule) => void) => {
+    const listener = (_: unknown, schedule: WidgetSchedule) => callback(schedule);
+    ipcRenderer.on('capture:schedule', listener);
+    return () => {
+      ipcRenderer.removeListener('capture:schedule', listener);
+    };
+  },
+};
+
+// Snapshots API
+const snapshotsAPI = {
+  list: (widgetId: string) => ipcRenderer.invoke('snapshots:list', widgetId),
+  getImage: (id: string) => ipcRenderer.invoke('snapshots:getImage', id),
+  diff: (baseId: string, compareId: string) => ipcRenderer.invoke('snapshots:diff', baseId, compareId),
+};
+
+// Values API
+const valuesAPI = {
+  list: (widgetId: string, since: number) => ipcRenderer.invoke('values:list', widgetId, since),
+};
+
+// Alerts API
+const alertsAPI = {
+  list: (dashboardId: string) => ipcRenderer.invoke('alerts:list', dashboardId),
+  acknowledge: (dashboardId: string, widgetId?: string) =>
+    ipcRenderer.invoke('alerts:acknowledge', dashboardId, widgetId),
+  clear: (dashboardId: string) => ipcRenderer.invoke('alerts:clear', dashboardId),
+  onAlert: (callback: (alert: WidgetAlert) => void) => {
+    const listener = (_: unknown, alert: WidgetAlert) => callback(alert);
+    ipcRenderer.on('alerts:new', listener);
+    return () => {
+      ipcRenderer.removeListener('alerts:new', listener);
+    };
+  },
+};
+
+// Sessions API
+const sessionsAPI = {
+  list: () => ipcRenderer.invoke('sessions:list'),
+  signIn: (partition: string) => ipcRenderer.invoke('sessions:signIn', partition),
+  partitions: () => ipcRenderer.invoke('sessions:partitions'),
+  cookies: (partition: string) => ipcRenderer.invoke('sessions:cookies', partition),
+  removeCookie: (partition: string, cookie: SessionCookie) =>
+    ipcRenderer.invoke('sessions:removeCookie', partition, cookie),
+  clearCookies: (partition: string) => ipcRenderer.invoke('sessions:clearCookies', partition),
+  exportSession: (partition: string, filePath: string, passphrase: string) =>
+    ipcRenderer.invoke('sessions:export', partition, filePath, passphrase),
+  importSession: (partition: string, filePath: string, passphrase: string) =>
+    ipcRenderer.invoke('sessions:import', partition, filePath, passphrase),
+  onStatus: (callback: (status: SessionStatus) => void) => {
+    const listener = (_: unknown, status: SessionStatus) => callback(status);
+    ipcRenderer.on('session:status', listener);
+    return () => {
+      ipcRenderer.removeListener('session:status', listener);
+    };
+  },
 };
 
 // Credentials API
@@ -118,7 +179,8 @@ const credentialsAPI = {
 
 // Widget Picker API
 const widgetPickerAPI = {
-  open: (url: string, partition?: string) => ipcRenderer.invoke('widgetPicker:open', url, partition),
+  open: (url: string, partition?: string, viewport?: WidgetViewport) =>
+    ipcRenderer.invoke('widgetPicker:open', url, partition, viewport),
   onSelectionComplete: (callback: (selection: PickerSelection) => void) => {
     ipcRenderer.on('widgetPicker:selectionComplete', (_, selection) => callback(selection));
   },
@@ -152,6 +214,11 @@ contextBridge.exposeInMainWorld('api', {
   app: appAPI,
   dashboards: dashboardsAPI,
   widgets: widgetsAPI,
+  capture: captureAPI,
+  snapshots: snapshotsAPI,
+  values: valuesAPI,
+  alerts: alertsAPI,
+  sessions: sessionsAPI,
   credentials: credentialsAPI,
   credentialGroups: credentialGroupsAPI,
   widgetPicker: widgetPickerAPI,
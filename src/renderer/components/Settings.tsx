@@ -1,25 +1,34 @@
 /**
  * Settings Component
  *
- * Configuration panel for database location and app info.
+ * Configuration panel for database location, capture settings, sessions and app info.
  */
 
 import React, { useState, useEffect } from 'react';
 import './Settings.css';
 import { DatabaseInfo } from '../../types/window';
+import { SessionManager } from './sessions/SessionManager';
+
+// Must match the settings key and default used by the main process capture scheduler
+const CAPTURE_CONCURRENCY_SETTING = 'captureConcurrency';
+const DEFAULT_CAPTURE_CONCURRENCY = 2;
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
 
 interface SettingsProps {
   onClose: () => void;
 }
 
 export function Settings({ onClose }: SettingsProps) {
-  const [activeTab, setActiveTab] = useState<'storage' | 'about'>('storage');
+  const [activeTab, setActiveTab] = useState<'storage' | 'capture' | 'sessions' | 'about'>('storage');
 
   // Database location state
   const [dbInfo, setDbInfo] = useState<DatabaseInfo | null>(null);
   const [migrating, setMigrating] = useState(false);
   const [migrationResult, setMigrationResult] = useState<{ success: boolean; message: string } | null>(null);
 
+  // Capture settings state
+  const [captureConcurrency, setCaptureConcurrency] = useState<number>(DEFAULT_CAPTURE_CONCURRENCY);
+
   // App version
   const [appVersion, setAppVersion] = useState<string>('...');
 
@@ -32,6 +41,12 @@ export function Settings({ onClose }: SettingsProps) {
         setDbInfo(dbInfoResult.data);
       }
 
+      // Load capture concurrency
+      const concurrencyResult = await window.api.settings.get(CAPTURE_CONCURRENCY_SETTING);
+      if (concurrencyResult.success && concurrencyResult.data) {
+        setCaptureConcurrency(Number(concurrencyResult.data));
+      }
+
       // Load app version
       const versionResult = await window.api.app.getVersion();
       if (versionResult.success && versionResult.data) {
@@ -75,6 +90,11 @@ export function Settings({ onClose }: SettingsProps) {
     }
   };
 
+  const handleCaptureConcurrencyChange = async (value: number) => {
+    setCaptureConcurrency(value);
+    await window.api.settings.set(CAPTURE_CONCURRENCY_SETTING, String(value));
+  };
+
   const handleShowInFinder = async () => {
     await window.api.database.showInFinder();
   };
@@ -122,6 +142,18 @@ export function Settings({ onClose }: SettingsProps) {
           >
             Storage
           </button>
+          <button
+            className={`settings-tab ${activeTab === 'capture' ? 'active' : ''}`}
+            onClick={() => setActiveTab('capture')}
+          >
+            Capture
+          </button>
+          <button
+            className={`settings-tab ${activeTab === 'sessions' ? 'active' : ''}`}
+            onClick={() => setActiveTab('sessions')}
+          >
+            Sessions
+          </button>
           <button
             className={`settings-tab ${activeTab === 'about' ? 'active' : ''}`}
             onClick={() => setActiveTab('about')}
@@ -199,6 +231,45 @@ export function Settings({ onClose }: SettingsProps) {
             </section>
           )}
 
+          {activeTab === 'capture' && (
+            <section className="settings-section">
+              <h3>Widget Capture</h3>
+              <p className="section-description">
+                Widgets are captured in hidden browser windows. Captures beyond this limit wait in a queue instead of
+                opening dozens of windows at once on large dashboards.
+              </p>
+
+              <div className="migration-section">
+                <h4>Concurrent Captures</h4>
+                <p className="migration-description">
+                  Maximum number of widgets captured at the same time. Lower values use less memory.
+                </p>
+                <select
+                  className="settings-select"
+                  value={captureConcurrency}
+                  onChange={(e) => handleCaptureConcurrencyChange(Number(e.target.value))}
+                >
+                  {CONCURRENCY_OPTIONS.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </section>
+          )}
+
+          {activeTab === 'sessions' && (
+            <section className="settings-section">
+              <h3>Sessions</h3>
+              <p className="section-description">
+                Each credential group, and each widget without one, has its own browser session with the cookies that
+                keep it signed in.
+              </p>
+              <SessionManager />
+            </section>
+          )}
+
           {activeTab === 'about' && (
             <section className="settings-section about-section">
               <h3>About</h3>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, ArrowLeft, ArrowRight, Key, Globe, MousePointer, Check } from 'lucide-react';
-import type { CreateCredentialGroupData } from '../../../types/dashboard';
+import type { CreateCredentialGroupData, LoginStep } from '../../../types/dashboard';
+import { LoginStepsEditor } from './LoginStepsEditor';
 
 interface CredentialGroupCreatorProps {
   onClose: () => void;
@@ -23,6 +24,11 @@ export function CredentialGroupCreator({
   const [usernameSelector, setUsernameSelector] = useState('');
   const [passwordSelector, setPasswordSelector] = useState('');
   const [submitSelector, setSubmitSelector] = useState('');
+  const [loginSteps, setLoginSteps] = useState<LoginStep[]>([]);
+  const [totpSecret, setTotpSecret] = useState('');
+  const [totpSelector, setTotpSelector] = useState('');
+  const [successSelector, setSuccessSelector] = useState('');
+  const [successUrl, setSuccessUrl] = useState('');
   const [loading, setLoading] = useState(false);
 
   const normalizeUrl = (input: string): string => {
@@ -40,6 +46,8 @@ export function CredentialGroupCreator({
         setUsernameSelector(result.data.usernameSelector);
         setPasswordSelector(result.data.passwordSelector);
         setSubmitSelector(result.data.submitSelector);
+        setLoginSteps(result.data.loginSteps);
+        setTotpSelector(result.data.totpSelector);
       }
     } catch (err) {
       console.error('Credential picker failed:', err);
@@ -59,6 +67,11 @@ export function CredentialGroupCreator({
         usernameSelector,
         passwordSelector,
         submitSelector,
+        loginSteps,
+        totpSecret,
+        totpSelector,
+        successSelector,
+        successUrl,
       });
       onClose();
     } catch (err) {
@@ -68,7 +81,7 @@ export function CredentialGroupCreator({
     }
   };
 
-  const hasSelectors = usernameSelector && passwordSelector;
+  const hasSelectors = (usernameSelector && passwordSelector) || loginSteps.length > 0;
 
   const renderStep = () => {
     switch (step) {
@@ -136,6 +149,12 @@ export function CredentialGroupCreator({
                 onChange={(e) => setPassword(e.target.value)}
                 placeholder="Password"
               />
+              <input
+                type="password"
+                value={totpSecret}
+                onChange={(e) => setTotpSecret(e.target.value)}
+                placeholder="2FA secret key or otpauth:// URI (optional)"
+              />
             </div>
             <div className="step-actions">
               <button className="secondary" onClick={() => setStep('name')}>
@@ -177,7 +196,7 @@ export function CredentialGroupCreator({
                   ) : hasSelectors ? (
                     <>
                       <Check size={20} />
-                      Form Fields Selected
+                      {loginSteps.length > 0 ? 'Login Steps Recorded' : 'Form Fields Selected'}
                     </>
                   ) : (
                     <>
@@ -188,8 +207,22 @@ export function CredentialGroupCreator({
                 </button>
                 <p className="hint">
                   Click to open the login page and select the username field, password field, and
-                  submit button
+                  submit button (and the 2FA code field if the site asks for one), or record the steps of a
+                  login spread over several pages
                 </p>
+                {loginSteps.length > 0 && <LoginStepsEditor steps={loginSteps} onChange={setLoginSteps} />}
+                <input
+                  type="text"
+                  value={successSelector}
+                  onChange={(e) => setSuccessSelector(e.target.value)}
+                  placeholder="Element only shown when signed in (optional)"
+                />
+                <input
+                  type="text"
+                  value={successUrl}
+                  onChange={(e) => setSuccessUrl(e.target.value)}
+                  placeholder="Part of the URL when signed in (optional)"
+                />
               </div>
             </div>
             <div className="step-actions">
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
-import { Key, Trash2, Plus, Users } from 'lucide-react';
+import { Key, Trash2, Plus, Users, LogIn } from 'lucide-react';
 import { useCredentialGroups } from '../../hooks/useCredentialGroups';
+import { useSessionStatuses } from '../../hooks/useSessionStatuses';
+import { SessionBadge } from '../widget/SessionBadge';
 import { CredentialGroupCreator } from './CredentialGroupCreator';
-import type { CredentialGroup, CreateCredentialGroupData } from '../../../types/dashboard';
+import type { CredentialGroup, CreateCredentialGroupData, SessionStatus } from '../../../types/dashboard';
 
 interface CredentialGroupManagerProps {
   onClose?: () => void;
@@ -10,14 +12,34 @@ interface CredentialGroupManagerProps {
 
 export function CredentialGroupManager({ onClose }: CredentialGroupManagerProps): React.ReactElement {
   const { groups, loading, createGroup, deleteGroup } = useCredentialGroups();
+  const sessionStatuses = useSessionStatuses();
   const [showCreator, setShowCreator] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  // Partitions with a sign-in window open
+  const [signingIn, setSigningIn] = useState<Set<string>>(new Set());
 
   const handleCreate = async (data: CreateCredentialGroupData) => {
     await createGroup(data);
     setShowCreator(false);
   };
 
+  // Sign in by hand when automatic login can't; the group's widgets are captured again afterwards
+  const handleSignIn = async (partition: string) => {
+    setSigningIn((prev) => new Set(prev).add(partition));
+    try {
+      const result = await window.api.sessions.signIn(partition);
+      if (!result.success) {
+        console.error('Failed to open the sign-in window:', result.error);
+      }
+    } finally {
+      setSigningIn((prev) => {
+        const next = new Set(prev);
+        next.delete(partition);
+        return next;
+      });
+    }
+  };
+
   const handleDelete = async (id: string) => {
     await deleteGroup(id);
     setDeleteConfirm(null);
@@ -71,6 +93,9 @@ export function CredentialGroupManager({ onClose }: CredentialGroupManagerProps)
             <CredentialGroupItem
               key={group.id}
               group={group}
+              sessionStatus={sessionStatuses.get(group.partition)}
+              isSigningIn={signingIn.has(group.partition)}
+              onSignIn={() => handleSignIn(group.partition)}
               isDeleting={deleteConfirm === group.id}
               onDeleteClick={() => setDeleteConfirm(group.id)}
               onDeleteConfirm={() => handleDelete(group.id)}
@@ -93,6 +118,9 @@ export function CredentialGroupManager({ onClose }: CredentialGroupManagerProps)
 
 interface CredentialGroupItemProps {
   group: CredentialGroup;
+  sessionStatus: SessionStatus | undefined;
+  isSigningIn: boolean;
+  onSignIn: () => void;
   isDeleting: boolean;
   onDeleteClick: () => void;
   onDeleteConfirm: () => void;
@@ -101,6 +129,9 @@ interface CredentialGroupItemProps {
 
 function CredentialGroupItem({
   group,
+  sessionStatus,
+  isSigningIn,
+  onSignIn,
   isDeleting,
   onDeleteClick,
   onDeleteConfirm,
@@ -113,7 +144,10 @@ function CredentialGroupItem({
           <Key size={20} />
         </div>
         <div className="group-details">
-          <h4>{group.name}</h4>
+          <h4>
+            {group.name}
+            <SessionBadge status={sessionStatus} />
+          </h4>
           <p className="group-meta">
             <span className="username">{group.username}</span>
             <span className="separator">•</span>
@@ -133,9 +167,19 @@ function CredentialGroupItem({
             </button>
           </>
         ) : (
-          <button className="icon-btn danger" onClick={onDeleteClick} title="Delete group">
-            <Trash2 size={16} />
-          </button>
+          <>
+            <button
+              className={`icon-btn ${sessionStatus?.state === 'auth-failed' ? 'needs-sign-in' : ''}`}
+              onClick={onSignIn}
+              disabled={isSigningIn}
+              title="Sign in again"
+            >
+              <LogIn size={16} />
+            </button>
+            <button className="icon-btn danger" onClick={onDeleteClick} title="Delete group">
+              <Trash2 size={16} />
+            </button>
+          </>
         )}
       </div>
     </div>
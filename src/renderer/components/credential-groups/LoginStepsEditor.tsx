@@ -0,0 +1,86 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import type { LoginStep, LoginStepType, LoginFillSource } from '../../../types/dashboard';
+
+interface LoginStepsEditorProps {
+  steps: LoginStep[];
+  onChange: (steps: LoginStep[]) => void;
+}
+
+const STEP_LABELS: Record<LoginStepType, string> = {
+  fill: 'Fill',
+  click: 'Click',
+  'wait-for-selector': 'Wait for',
+  'wait-for-url': 'Wait for URL',
+};
+
+/**
+ * Edit the login steps recorded in the credential picker: what each field is
+ * filled with, and which steps only happen sometimes
+ */
+export function LoginStepsEditor({ steps, onChange }: LoginStepsEditorProps): React.ReactElement {
+  const updateStep = (index: number, changes: Partial<LoginStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  return (
+    <div className="login-steps">
+      {steps.map((step, index) => (
+        <div key={index} className="login-step-row">
+          <span className="login-step-label">
+            {index + 1}. {STEP_LABELS[step.type]}
+          </span>
+          {step.type === 'wait-for-url' ? (
+            <input
+              type="text"
+              value={step.url ?? ''}
+              onChange={(e) => updateStep(index, { url: e.target.value })}
+              placeholder="Part of the URL"
+            />
+          ) : (
+            <input
+              type="text"
+              value={step.selector ?? ''}
+              onChange={(e) => updateStep(index, { selector: e.target.value })}
+              placeholder="CSS selector"
+            />
+          )}
+          {step.type === 'fill' && (
+            <select
+              value={step.fill ?? 'username'}
+              onChange={(e) => updateStep(index, { fill: e.target.value as LoginFillSource })}
+            >
+              <option value="username">Username</option>
+              <option value="password">Password</option>
+              <option value="totp">2FA code</option>
+              <option value="text">Text</option>
+            </select>
+          )}
+          {step.type === 'fill' && step.fill === 'text' && (
+            <input
+              type="text"
+              value={step.value ?? ''}
+              onChange={(e) => updateStep(index, { value: e.target.value })}
+              placeholder="Text"
+            />
+          )}
+          <label className="login-step-optional" title="Skip this step when its element doesn't show up">
+            <input
+              type="checkbox"
+              checked={!!step.optional}
+              onChange={(e) => updateStep(index, { optional: e.target.checked })}
+            />
+            Optional
+          </label>
+          <button
+            className="widget-btn danger"
+            onClick={() => onChange(steps.filter((_, i) => i !== index))}
+            title="Remove step"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 export { CredentialGroupCreator } from './CredentialGroupCreator';
 export { CredentialGroupManager } from './CredentialGroupManager';
+export { LoginStepsEditor } from './LoginStepsEditor';
@@ -0,0 +1,60 @@
+import React from 'react';
+import { X, Bell, Check, Trash2 } from 'lucide-react';
+import type { WidgetAlert } from '../../../types/dashboard';
+
+interface AlertsPanelProps {
+  alerts: WidgetAlert[];
+  onAcknowledgeAll: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Side panel listing a dashboard's change detection alerts, newest first
+ */
+export function AlertsPanel({ alerts, onAcknowledgeAll, onClear, onClose }: AlertsPanelProps): React.ReactElement {
+  return (
+    <aside className="alerts-panel">
+      <div className="alerts-panel-header">
+        <h3>
+          <Bell size={16} />
+          Alerts
+        </h3>
+        <div className="alerts-panel-actions">
+          <button
+            onClick={onAcknowledgeAll}
+            disabled={alerts.every((alert) => alert.acknowledged)}
+            title="Mark all as seen"
+          >
+            <Check size={14} />
+          </button>
+          <button onClick={onClear} disabled={alerts.length === 0} title="Clear log">
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="hint">No changes detected yet. Enable change detection in a widget&apos;s settings.</p>
+      ) : (
+        <ul className="alerts-list">
+          {alerts.map((alert) => (
+            <li key={alert.id} className={alert.acknowledged ? '' : 'unread'}>
+              <div className="alert-title">
+                <strong>{alert.widgetName}</strong>
+                <time>{new Date(alert.createdAt).toLocaleString()}</time>
+              </div>
+              <p>{alert.message}</p>
+              {alert.kind === 'text' && alert.previousText !== null && (
+                <p className="alert-previous">Was: {alert.previousText}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
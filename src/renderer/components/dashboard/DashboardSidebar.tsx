@@ -52,7 +52,7 @@ export function DashboardSidebar(): React.ReactElement {
 
   const handleUpdate = async (id: string) => {
     if (editName.trim()) {
-      await updateDashboard(id, editName.trim());
+      await updateDashboard(id, { name: editName.trim() });
       setEditingId(null);
     }
   };
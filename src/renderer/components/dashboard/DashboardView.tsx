@@ -1,17 +1,23 @@
 import React, { useState, useCallback } from 'react';
 import GridLayout, { Layout } from 'react-grid-layout';
-import { Plus } from 'lucide-react';
+import { Plus, Pause, Play, Bell } from 'lucide-react';
 import { useDashboardContext } from '../../context/DashboardContext';
 import { useWidgets } from '../../hooks/useWidgets';
+import { useDashboardAlerts } from '../../hooks/useDashboardAlerts';
 import { Widget } from '../widget/Widget';
 import { WidgetCreator } from '../widget-creator/WidgetCreator';
+import { AlertsPanel } from './AlertsPanel';
 import type { WidgetPosition } from '../../../types/dashboard';
 import 'react-grid-layout/css/styles.css';
 
 export function DashboardView(): React.ReactElement {
-  const { currentDashboard, widgets } = useDashboardContext();
+  const { currentDashboard, widgets, updateDashboard } = useDashboardContext();
   const { updatePositions } = useWidgets();
   const [showCreator, setShowCreator] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const { alerts, alertingWidgetIds, unacknowledgedCount, acknowledge, clear } = useDashboardAlerts(
+    currentDashboard?.id ?? null
+  );
   const [containerWidth, setContainerWidth] = useState(1200);
 
   const containerRef = useCallback((node: HTMLDivElement | null) => {
@@ -62,10 +68,24 @@ export function DashboardView(): React.ReactElement {
     <div className="dashboard-view" ref={containerRef}>
       <div className="dashboard-header">
         <h1>{currentDashboard.name}</h1>
-        <button className="add-widget-btn" onClick={() => setShowCreator(true)}>
-          <Plus size={18} />
-          Add Widget
-        </button>
+        <div className="dashboard-header-actions">
+          <button onClick={() => setShowAlerts(!showAlerts)} title="Change detection alerts">
+            <Bell size={18} />
+            Alerts
+            {unacknowledgedCount > 0 && <span className="alerts-badge">{unacknowledgedCount}</span>}
+          </button>
+          <button
+            onClick={() => updateDashboard(currentDashboard.id, { refreshPaused: !currentDashboard.refreshPaused })}
+            title={currentDashboard.refreshPaused ? 'Resume auto-refresh for all widgets' : 'Pause auto-refresh for all widgets'}
+          >
+            {currentDashboard.refreshPaused ? <Play size={18} /> : <Pause size={18} />}
+            {currentDashboard.refreshPaused ? 'Resume Refresh' : 'Pause Refresh'}
+          </button>
+          <button className="add-widget-btn" onClick={() => setShowCreator(true)}>
+            <Plus size={18} />
+            Add Widget
+          </button>
+        </div>
       </div>
 
       {widgets.length === 0 ? (
@@ -91,12 +111,25 @@ export function DashboardView(): React.ReactElement {
         >
           {widgets.map((widget) => (
             <div key={widget.id}>
-              <Widget widget={widget} />
+              <Widget
+                widget={widget}
+                alerting={alertingWidgetIds.has(widget.id)}
+                onAcknowledgeAlert={() => acknowledge(widget.id)}
+              />
             </div>
           ))}
         </GridLayout>
       )}
 
+      {showAlerts && (
+        <AlertsPanel
+          alerts={alerts}
+          onAcknowledgeAll={() => acknowledge()}
+          onClear={clear}
+          onClose={() => setShowAlerts(false)}
+        />
+      )}
+
       {showCreator && <WidgetCreator onClose={() => setShowCreator(false)} />}
     </div>
   );
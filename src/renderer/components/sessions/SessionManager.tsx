@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2 } from 'lucide-react';
+import { useSessionStatuses } from '../../hooks/useSessionStatuses';
+import { SessionBadge } from '../widget/SessionBadge';
+import type { SessionPartition, SessionCookie } from '../../../types/dashboard';
+
+const SESSION_FILE_FILTERS = [{ name: 'Encrypted Session', extensions: ['session'] }];
+
+/**
+ * Cookies of each credential group's and widget's session partition, and
+ * encrypted export/import of a partition's cookies and localStorage to set up
+ * another partition or install without signing in again
+ */
+export function SessionManager(): React.ReactElement {
+  const [partitions, setPartitions] = useState<SessionPartition[]>([]);
+  const [selected, setSelected] = useState<string>('');
+  const [cookies, setCookies] = useState<SessionCookie[] | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const sessionStatuses = useSessionStatuses();
+
+  useEffect(() => {
+    window.api.sessions.partitions().then((response) => {
+      if (response.success && response.data) {
+        setPartitions(response.data);
+        setSelected((current) => current || response.data?.[0]?.partition || '');
+      }
+    });
+  }, []);
+
+  const loadCookies = useCallback(async () => {
+    if (!selected) return;
+    const response = await window.api.sessions.cookies(selected);
+    setCookies(response.success && response.data ? response.data : []);
+  }, [selected]);
+
+  useEffect(() => {
+    setCookies(null);
+    setResult(null);
+    loadCookies();
+  }, [loadCookies]);
+
+  const handleRemoveCookie = async (cookie: SessionCookie) => {
+    await window.api.sessions.removeCookie(selected, cookie);
+    await loadCookies();
+  };
+
+  const handleClearCookies = async () => {
+    if (!confirm('Delete all cookies of this session? Its widgets will need to sign in again.')) return;
+    await window.api.sessions.clearCookies(selected);
+    await loadCookies();
+  };
+
+  const handleExport = async () => {
+    const name = partitions.find((p) => p.partition === selected)?.name ?? selected;
+    const filePath = await window.api.dialog.showSaveDialog({
+      defaultPath: `${name}.session`,
+      filters: SESSION_FILE_FILTERS,
+    });
+    if (!filePath) return;
+
+    setBusy(true);
+    setResult(null);
+    try {
+      const response = await window.api.sessions.exportSession(selected, filePath, passphrase);
+      setResult(
+        response.success && response.data
+          ? {
+              success: true,
+              message: `Exported ${response.data.cookies} cookies and the storage of ${response.data.origins} sites.`,
+            }
+          : { success: false, message: response.error?.message || 'Export failed.' }
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const filePaths = await window.api.dialog.showOpenDialog({
+      filters: SESSION_FILE_FILTERS,
+      properties: ['openFile'],
+    });
+    if (!filePaths?.[0]) return;
+
+    setBusy(true);
+    setResult(null);
+    try {
+      const response = await window.api.sessions.importSession(selected, filePaths[0], passphrase);
+      setResult(
+        response.success && response.data
+          ? {
+              success: true,
+              message: `Imported ${response.data.cookies} cookies and the storage of ${response.data.origins} sites. Its widgets are being captured again.`,
+            }
+          : { success: false, message: response.error?.message || 'Import failed.' }
+      );
+      await loadCookies();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (partitions.length === 0) {
+    return <p className="loading-text">No widgets or credential groups with a session yet.</p>;
+  }
+
+  return (
+    <div className="session-manager">
+      <div className="session-picker">
+        <select className="settings-select" value={selected} onChange={(e) => setSelected(e.target.value)}>
+          {partitions.map((p) => (
+            <option key={p.partition} value={p.partition}>
+              {p.name} ({p.kind === 'group' ? 'credential group, ' : ''}
+              {p.widgetCount} {p.widgetCount === 1 ? 'widget' : 'widgets'})
+            </option>
+          ))}
+        </select>
+        <SessionBadge status={sessionStatuses.get(selected)} />
+      </div>
+
+      <div className="migration-section">
+        <h4>Cookies</h4>
+        {cookies === null ? (
+          <p className="loading-text">Loading cookies...</p>
+        ) : cookies.length === 0 ? (
+          <p className="migration-description">No cookies stored for this session.</p>
+        ) : (
+          <>
+            <ul className="session-cookies">
+              {cookies.map((cookie) => (
+                <li key={`${cookie.domain}${cookie.path}${cookie.name}`} className="session-cookie">
+                  <span className="session-cookie-name" title={cookie.path}>
+                    {cookie.name}
+                  </span>
+                  <span className="session-cookie-domain">{cookie.domain}</span>
+                  <span className="session-cookie-expiry">
+                    {cookie.expirationDate
+                      ? new Date(cookie.expirationDate * 1000).toLocaleDateString()
+                      : 'Session'}
+                  </span>
+                  <button className="icon-btn danger" onClick={() => handleRemoveCookie(cookie)} title="Delete cookie">
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button className="btn-secondary btn-small" onClick={handleClearCookies}>
+              Delete All Cookies
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="migration-section">
+        <h4>Export / Import</h4>
+        <p className="migration-description">
+          Save this session&apos;s cookies and site storage to a file encrypted with a passphrase, or load a saved
+          session into it, e.g. on a new machine. Anyone with the file and passphrase is signed in as you.
+        </p>
+        <div className="session-transfer">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+          />
+          <button className="btn-secondary" onClick={handleExport} disabled={busy || !passphrase}>
+            Export...
+          </button>
+          <button className="btn-secondary" onClick={handleImport} disabled={busy || !passphrase}>
+            Import...
+          </button>
+        </div>
+      </div>
+
+      {result && <div className={`test-result ${result.success ? 'success' : 'error'}`}>{result.message}</div>}
+    </div>
+  );
+}
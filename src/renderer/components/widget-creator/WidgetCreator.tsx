@@ -3,11 +3,19 @@ import { X, ArrowLeft, ArrowRight, Globe, MousePointer, Clock, Key, Check, Plus
 import { useWidgets } from '../../hooks/useWidgets';
 import { useCredentialGroups } from '../../hooks/useCredentialGroups';
 import { CredentialGroupCreator } from '../credential-groups/CredentialGroupCreator';
+import { LoginStepsEditor } from '../credential-groups/LoginStepsEditor';
+import { TextExtractionOptions } from '../widget/TextExtractionOptions';
+import { CompositeOptions } from '../widget/CompositeOptions';
+import { ViewportSelector } from '../widget/ViewportSelector';
+import { DEFAULT_VIEWPORT } from '../../../types/dashboard';
 import type {
   SelectorType,
   SelectorData,
+  CssSelectorData,
   SaveCredentialsData,
   CreateCredentialGroupData,
+  WidgetViewport,
+  MacroStep,
 } from '../../../types/dashboard';
 
 // Global session partition - shared by all widgets that opt into it
@@ -30,6 +38,9 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
   const [selectorType, setSelectorType] = useState<SelectorType | null>(null);
   const [selectorData, setSelectorData] = useState<SelectorData | null>(null);
   const [refreshInterval, setRefreshInterval] = useState(300);
+  const [viewport, setViewport] = useState<WidgetViewport>(DEFAULT_VIEWPORT);
+  const [hiddenSelectors, setHiddenSelectors] = useState<string[]>([]);
+  const [macro, setMacro] = useState<MacroStep[]>([]);
   const [hasCredentials, setHasCredentials] = useState(false);
 
   // Session mode - global shares session across widgets, isolated is unique per widget
@@ -57,10 +68,12 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
     try {
       // Use global session partition so login during picker is preserved
       const partition = sessionMode === 'global' ? GLOBAL_SESSION_PARTITION : undefined;
-      const result = await window.api.widgetPicker.open(url, partition);
+      const result = await window.api.widgetPicker.open(url, partition, viewport);
       if (result.success && result.data) {
         setSelectorType(result.data.selectorType as SelectorType);
         setSelectorData(result.data.selectorData as SelectorData);
+        setHiddenSelectors(result.data.hiddenSelectors ?? []);
+        setMacro(result.data.macroSteps ?? []);
         setStep('settings');
       }
     } catch (err) {
@@ -81,6 +94,8 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
           usernameSelector: result.data.usernameSelector,
           passwordSelector: result.data.passwordSelector,
           submitSelector: result.data.submitSelector,
+          totpSelector: result.data.totpSelector,
+          loginSteps: result.data.loginSteps,
         });
       }
     } catch (err) {
@@ -115,6 +130,9 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
         selectorType,
         selectorData,
         refreshInterval,
+        viewport,
+        hiddenSelectors,
+        macro,
         credentialGroupId,
         partition,
       });
@@ -232,6 +250,9 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
                 </label>
               </div>
             </div>
+            <div className="step-content">
+              <ViewportSelector viewport={viewport} onChange={setViewport} />
+            </div>
             <div className="step-content selector-options">
               <button className="selector-btn" onClick={handleOpenPicker} disabled={loading}>
                 {loading ? (
@@ -282,6 +303,19 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
                   <option value={3600}>Every hour</option>
                 </select>
               </label>
+              {selectorType && selectorData && (
+                <TextExtractionOptions
+                  selectorType={selectorType}
+                  selectorData={selectorData}
+                  onChange={(type, data) => {
+                    setSelectorType(type);
+                    setSelectorData(data);
+                  }}
+                />
+              )}
+              {selectorType === 'css' && selectorData && (
+                <CompositeOptions selectorData={selectorData as CssSelectorData} onChange={setSelectorData} />
+              )}
               <label className="checkbox-label">
                 <input
                   type="checkbox"
@@ -310,7 +344,8 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
         );
 
       case 'auth': {
-        const hasSelectors = credentials.usernameSelector && credentials.passwordSelector;
+        const hasSelectors =
+          (credentials.usernameSelector && credentials.passwordSelector) || !!credentials.loginSteps?.length;
         const canCreate =
           authMode === 'credential-group'
             ? !!selectedGroupId
@@ -392,6 +427,12 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
                       onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
                       placeholder="Password"
                     />
+                    <input
+                      type="password"
+                      value={credentials.totpSecret ?? ''}
+                      onChange={(e) => setCredentials({ ...credentials, totpSecret: e.target.value })}
+                      placeholder="2FA secret key or otpauth:// URI (optional)"
+                    />
                     <input
                       type="text"
                       value={credentials.loginUrl}
@@ -411,7 +452,7 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
                       ) : hasSelectors ? (
                         <>
                           <Check size={20} />
-                          Form Fields Selected
+                          {credentials.loginSteps?.length ? 'Login Steps Recorded' : 'Form Fields Selected'}
                         </>
                       ) : (
                         <>
@@ -420,6 +461,24 @@ export function WidgetCreator({ onClose }: WidgetCreatorProps): React.ReactEleme
                         </>
                       )}
                     </button>
+                    {!!credentials.loginSteps?.length && (
+                      <LoginStepsEditor
+                        steps={credentials.loginSteps}
+                        onChange={(loginSteps) => setCredentials({ ...credentials, loginSteps })}
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={credentials.successSelector ?? ''}
+                      onChange={(e) => setCredentials({ ...credentials, successSelector: e.target.value })}
+                      placeholder="Element only shown when signed in (optional)"
+                    />
+                    <input
+                      type="text"
+                      value={credentials.successUrl ?? ''}
+                      onChange={(e) => setCredentials({ ...credentials, successUrl: e.target.value })}
+                      placeholder="Part of the URL when signed in (optional)"
+                    />
                   </div>
                 )}
               </div>
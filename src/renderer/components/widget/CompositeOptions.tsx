@@ -0,0 +1,43 @@
+import React from 'react';
+import type { CssSelectorData, CompositeLayout } from '../../../types/dashboard';
+
+interface CompositeOptionsProps {
+  selectorData: CssSelectorData;
+  onChange: (selectorData: CssSelectorData) => void;
+}
+
+/**
+ * Layout and padding for widgets with several selected elements, which are
+ * captured separately and composed into one image
+ */
+export function CompositeOptions({ selectorData, onChange }: CompositeOptionsProps): React.ReactElement | null {
+  if (selectorData.selectors.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="composite-options">
+      <label>
+        Arrange elements
+        <select
+          value={selectorData.layout ?? 'vertical'}
+          onChange={(e) => onChange({ ...selectorData, layout: e.target.value as CompositeLayout })}
+        >
+          <option value="vertical">Stacked vertically</option>
+          <option value="horizontal">Side by side</option>
+          <option value="page">As positioned on the page</option>
+        </select>
+      </label>
+      <label>
+        Padding around each element (px)
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={selectorData.padding ?? 0}
+          onChange={(e) => onChange({ ...selectorData, padding: Math.min(100, Math.max(0, Number(e.target.value))) })}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Sparkline } from './Sparkline';
+import type { Widget, CaptureResult, TextSelectorData } from '../../../types/dashboard';
+
+interface KpiTileProps {
+  widget: Widget;
+  result: CaptureResult;
+}
+
+/**
+ * Big-number tile for 'text' widgets. Shows the parsed number and its history
+ * when number parsing is on, otherwise the extracted text itself.
+ */
+export function KpiTile({ widget, result }: KpiTileProps): React.ReactElement {
+  const { parseNumber } = widget.selectorData as TextSelectorData;
+  const text = result.text?.trim() ?? '';
+  const hasValue = parseNumber && result.value !== null && result.value !== undefined;
+
+  return (
+    <div className="kpi-tile" style={{ zoom: widget.zoomLevel }}>
+      {hasValue ? (
+        <>
+          <span className="kpi-value">{result.value!.toLocaleString()}</span>
+          <span className="kpi-source" title={text}>
+            {text}
+          </span>
+          <Sparkline widgetId={widget.id} capturedAt={result.capturedAt} />
+        </>
+      ) : (
+        <span className={`kpi-value ${text.length > 24 ? 'long' : ''}`}>{text || 'No text found'}</span>
+      )}
+    </div>
+  );
+}
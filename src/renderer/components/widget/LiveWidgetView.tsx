@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { WebviewTag, DidFailLoadEvent } from 'electron';
+import type { Widget, CssSelectorData, CropSelectorData } from '../../../types/dashboard';
+import {
+  DEEP_QUERY_SOURCE,
+  FIND_LOCATORS_SOURCE,
+  PIERCE_SEPARATOR,
+  VIEWPORT_RECT_SOURCE,
+} from '../../../shared/page-scripts';
+
+interface LiveWidgetViewProps {
+  widget: Widget;
+  // Called when the page or selection can't be shown, so the widget falls back to its snapshot
+  onError: (message: string) => void;
+}
+
+// How long to wait for the selected elements to appear after each page load
+const SELECTOR_TIMEOUT_MS = 15000;
+// How long the widget's pre-capture script may take before the view is shown anyway
+const PRE_CAPTURE_SCRIPT_TIMEOUT_MS = 10000;
+
+// Top-left of the selection in the page viewport, in CSS pixels
+interface ClipOffset {
+  x: number;
+  y: number;
+}
+
+/**
+ * Interactive view of a widget: a <webview> in the widget's session partition,
+ * scrolled and clipped to the crop region, or with everything but the selected
+ * elements hidden. Page scrolling is locked so the selection stays in place,
+ * while clicks, hovers and scrolling inside elements work as usual.
+ */
+export function LiveWidgetView({ widget, onError }: LiveWidgetViewProps): React.ReactElement {
+  const webviewRef = useRef<WebviewTag>(null);
+  const [offset, setOffset] = useState<ClipOffset | null>(null);
+  const zoom = widget.zoomLevel;
+  // Read by the load handler without re-registering it (and reloading) on zoom changes
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const isolationScript = getIsolationScript(widget);
+  // Same viewport size as the capture and picker windows, so crop coordinates line up
+  const { width, height, userAgent } = widget.viewport;
+  const { preCaptureJs } = widget;
+  // Elements marked in the picker's hide mode are hidden here too. Page CSS can't
+  // reach into shadow roots or iframes, so those elements are hidden by a script.
+  const piercingHidden = widget.hiddenSelectors.filter((selector) => selector.includes(PIERCE_SEPARATOR));
+  const plainHidden = widget.hiddenSelectors.filter((selector) => !selector.includes(PIERCE_SEPARATOR));
+  const preCaptureCss =
+    [widget.preCaptureCss, ...plainHidden.map((selector) => `${selector} { visibility: hidden !important; }`)]
+      .filter(Boolean)
+      .join('\n') || null;
+  const hideScript = piercingHidden.length > 0 ? getHideScript(piercingHidden) : null;
+
+  useEffect(() => {
+    const webview = webviewRef.current;
+    if (!webview) return;
+
+    const handleDomReady = async () => {
+      setOffset(null);
+      webview.setZoomFactor(zoomRef.current);
+      try {
+        await runPreCaptureHooks(webview, preCaptureCss, hideScript, preCaptureJs);
+        const result: ClipOffset | null = await webview.executeJavaScript(isolationScript);
+        if (result) {
+          setOffset(result);
+        } else {
+          onError('Selected elements not found on the page');
+        }
+      } catch (error) {
+        onError(String(error));
+      }
+    };
+
+    const handleFailLoad = (event: DidFailLoadEvent) => {
+      // -3 is an aborted load, e.g. a redirect or a navigation replacing this one
+      if (event.isMainFrame && event.errorCode !== -3) {
+        onError(event.errorDescription || 'Failed to load page');
+      }
+    };
+
+    const handleGone = () => onError('The page crashed');
+
+    webview.addEventListener('dom-ready', handleDomReady);
+    webview.addEventListener('did-fail-load', handleFailLoad);
+    webview.addEventListener('render-process-gone', handleGone);
+    return () => {
+      webview.removeEventListener('dom-ready', handleDomReady);
+      webview.removeEventListener('did-fail-load', handleFailLoad);
+      webview.removeEventListener('render-process-gone', handleGone);
+    };
+  }, [isolationScript, preCaptureCss, hideScript, preCaptureJs, onError]);
+
+  // Zoom changes apply to the already loaded page; offsets are in CSS pixels so they still hold
+  useEffect(() => {
+    const webview = webviewRef.current;
+    if (webview && offset) {
+      webview.setZoomFactor(zoom);
+    }
+  }, [zoom, offset]);
+
+  return (
+    <div className="widget-live" onMouseDown={(e) => e.stopPropagation()}>
+      <webview
+        ref={webviewRef}
+        src={widget.url}
+        // eslint-disable-next-line react/no-unknown-property -- <webview> attribute
+        partition={`persist:${widget.partition}`}
+        // eslint-disable-next-line react/no-unknown-property -- <webview> attribute
+        useragent={userAgent || undefined}
+        style={{
+          position: 'absolute',
+          width: width * zoom,
+          height: height * zoom,
+          left: -(offset?.x ?? 0) * zoom,
+          top: -(offset?.y ?? 0) * zoom,
+          visibility: offset ? 'visible' : 'hidden',
+        }}
+      />
+      {!offset && (
+        <div className="widget-loading">
+          <div className="spinner"></div>
+          <span>Loading live view...</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The widget's pre-capture hooks also apply to the live page (cookie banners,
+// modals...). Failures are ignored like in the capture path.
+async function runPreCaptureHooks(
+  webview: WebviewTag,
+  css: string | null,
+  hideScript: string | null,
+  js: string | null
+): Promise<void> {
+  if (css) {
+    await webview.insertCSS(css).catch(() => undefined);
+  }
+  if (hideScript) {
+    await webview.executeJavaScript(hideScript).catch(() => undefined);
+  }
+  if (js) {
+    await Promise.race([
+      webview.executeJavaScript(`(async () => {\n${js}\n})()`).catch(() => undefined),
+      new Promise((resolve) => setTimeout(resolve, PRE_CAPTURE_SCRIPT_TIMEOUT_MS)),
+    ]);
+  }
+}
+
+// Script hiding elements selected through shadow roots or iframes
+function getHideScript(selectors: string[]): string {
+  return `
+    (function() {
+      const query = ${DEEP_QUERY_SOURCE};
+      for (const selector of ${JSON.stringify(selectors)}) {
+        query(selector)?.style.setProperty('visibility', 'hidden', 'important');
+      }
+    })();
+  `;
+}
+
+// Script run in the page after each load. Resolves to the selection's offset
+// in the viewport, or null when the selected elements never appeared. Elements
+// are found like in the capture path: piercing selectors, then fallback locators.
+function getIsolationScript(widget: Widget): string {
+  if (widget.selectorType === 'crop') {
+    const { x, y, scrollX, scrollY, anchor } = widget.selectorData as CropSelectorData;
+    return `
+      (function() {
+        document.documentElement.style.setProperty('overflow', 'hidden', 'important');
+        // Anchored regions follow their anchor element
+        const anchor = ${JSON.stringify(anchor ?? null)};
+        const [match] = anchor ? (${FIND_LOCATORS_SOURCE})([anchor.locator]) : [];
+        if (match && match.el) {
+          const rect = (${VIEWPORT_RECT_SOURCE})(match.el);
+          const left = rect.x + window.scrollX + anchor.offsetX;
+          const top = rect.y + window.scrollY + anchor.offsetY;
+          window.scrollTo(left, top);
+          return { x: left - window.scrollX, y: top - window.scrollY };
+        }
+        window.scrollTo(${scrollX}, ${scrollY});
+        return { x: ${x} + ${scrollX} - window.scrollX, y: ${y} + ${scrollY} - window.scrollY };
+      })();
+    `;
+  }
+
+  const { selectors, locators } = widget.selectorData as CssSelectorData;
+  return `
+    (async function() {
+      const selectors = ${JSON.stringify(selectors)};
+      const locators = ${JSON.stringify(locators?.length ? locators : null)};
+      const query = ${DEEP_QUERY_SOURCE};
+      const findLocators = ${FIND_LOCATORS_SOURCE};
+      const viewportRect = ${VIEWPORT_RECT_SOURCE};
+      const deadline = Date.now() + ${SELECTOR_TIMEOUT_MS};
+      let elements = [];
+      while (true) {
+        elements = locators
+          ? findLocators(locators).map(match => match.el).filter(Boolean)
+          : selectors.map(s => query(s)).filter(Boolean);
+        if (elements.length > 0 || Date.now() > deadline) break;
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+      if (elements.length === 0) return null;
+
+      // The page's stylesheet can't reach into shadow roots or iframes, so those
+      // elements are kept visible through their shadow host or frame element
+      const inDocument = (el) => {
+        while (el.getRootNode() !== document) {
+          const root = el.getRootNode();
+          el = root.host || root.defaultView.frameElement;
+        }
+        return el;
+      };
+
+      // Hide everything except the selected elements (visibility keeps the page layout intact)
+      elements.forEach(el => inDocument(el).setAttribute('data-dashboard-live', ''));
+      const style = document.createElement('style');
+      style.textContent =
+        'html { overflow: hidden !important; }' +
+        'body * { visibility: hidden !important; }' +
+        '[data-dashboard-live], [data-dashboard-live] * { visibility: visible !important; }';
+      document.head.appendChild(style);
+
+      const rects = elements.map(el => viewportRect(el));
+      const left = Math.min(...rects.map(r => r.x)) + window.scrollX;
+      const top = Math.min(...rects.map(r => r.y)) + window.scrollY;
+      window.scrollTo(left, top);
+      return { x: left - window.scrollX, y: top - window.scrollY };
+    })();
+  `;
+}
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Plus, Play, Trash2, Image, CircleCheck, CircleX, CircleDashed } from 'lucide-react';
+import type { MacroStep, MacroStepType, MacroStepResult } from '../../../types/dashboard';
+
+interface MacroEditorProps {
+  widgetId: string;
+  steps: MacroStep[];
+  onChange: (steps: MacroStep[]) => void;
+}
+
+// Results of a debugger run, for the steps it ran
+interface DebugRun {
+  steps: MacroStep[];
+  results: MacroStepResult[];
+}
+
+const STEP_LABELS: Record<MacroStepType, string> = {
+  click: 'Click',
+  type: 'Type',
+  select: 'Select',
+  wait: 'Wait',
+};
+
+/**
+ * Edit the interaction steps recorded in the picker, and replay them on the
+ * widget's page step by step to see where they stop working
+ */
+export function MacroEditor({ widgetId, steps, onChange }: MacroEditorProps): React.ReactElement {
+  const [debugRun, setDebugRun] = useState<DebugRun | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  // Results only apply while the steps are unchanged
+  const results = debugRun?.steps === steps ? debugRun.results : null;
+  const preview = previewIndex !== null ? results?.[previewIndex]?.image : null;
+
+  const updateStep = (index: number, changes: Partial<MacroStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    setPreviewIndex(null);
+    try {
+      const result = await window.api.capture.debugMacro(widgetId, steps);
+      if (result.success && result.data) {
+        setDebugRun({ steps, results: result.data });
+        // Show the page where the macro stopped
+        const failed = result.data.findIndex((step) => step.status === 'failed');
+        setPreviewIndex(failed >= 0 ? failed : result.data.length - 1);
+      } else {
+        setError(result.error?.message ?? 'Failed to run steps');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="macro-editor">
+      {steps.length === 0 && (
+        <p className="hint">
+          Use Record Steps in the picker (Re-select Content) to record the clicks and typing that lead to the view
+          to capture
+        </p>
+      )}
+      {steps.map((step, index) => {
+        const result = results?.[index];
+        return (
+          <div key={index} className={`macro-step${result ? ` ${result.status}` : ''}`}>
+            <div className="macro-step-row">
+              {result?.status === 'ok' && <CircleCheck size={14} className="macro-step-status" />}
+              {result?.status === 'failed' && <CircleX size={14} className="macro-step-status" />}
+              {result?.status === 'skipped' && <CircleDashed size={14} className="macro-step-status" />}
+              <span className="macro-step-label">
+                {index + 1}. {STEP_LABELS[step.type]}
+              </span>
+              {step.type === 'wait' ? (
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={(step.delayMs ?? 0) / 1000}
+                  onChange={(e) => updateStep(index, { delayMs: Math.round(Number(e.target.value) * 1000) })}
+                  title="Seconds"
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={step.selector ?? ''}
+                  onChange={(e) => updateStep(index, { selector: e.target.value })}
+                  placeholder="CSS selector"
+                />
+              )}
+              {(step.type === 'type' || step.type === 'select') && (
+                <input
+                  type="text"
+                  value={step.value ?? ''}
+                  onChange={(e) => updateStep(index, { value: e.target.value })}
+                  placeholder={step.type === 'type' ? 'Text' : 'Option value'}
+                />
+              )}
+              {result?.image && (
+                <button
+                  className={`widget-btn${previewIndex === index ? ' active' : ''}`}
+                  onClick={() => setPreviewIndex(previewIndex === index ? null : index)}
+                  title="Show the page after this step"
+                >
+                  <Image size={14} />
+                </button>
+              )}
+              <button
+                className="widget-btn danger"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                title="Remove step"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {result?.error && <p className="macro-step-error">{result.error}</p>}
+          </div>
+        );
+      })}
+      <div className="macro-actions">
+        <button className="rule-add-btn" onClick={() => onChange([...steps, { type: 'wait', delayMs: 1000 }])}>
+          <Plus size={14} />
+          Add Wait
+        </button>
+        {steps.length > 0 && (
+          <button className="rule-add-btn" onClick={handleRun} disabled={running}>
+            {running ? <div className="spinner small"></div> : <Play size={14} />}
+            {running ? 'Running...' : 'Run Steps'}
+          </button>
+        )}
+      </div>
+      {error && <p className="macro-step-error">{error}</p>}
+      {preview && <img className="macro-preview" src={preview} alt={`Page after step ${(previewIndex ?? 0) + 1}`} />}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import type { CaptureState, WidgetSchedule } from '../../../types/dashboard';
+
+interface RefreshCountdownProps {
+  schedule: WidgetSchedule | null;
+  state: CaptureState;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Shows the time until the scheduler's next capture of a widget.
+ * The interval here only re-renders the label; captures are timed by the main process.
+ */
+export function RefreshCountdown({ schedule, state }: RefreshCountdownProps): React.ReactElement | null {
+  const [now, setNow] = useState(() => Date.now());
+  const nextDueAt = schedule?.nextDueAt ?? null;
+
+  useEffect(() => {
+    if (nextDueAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextDueAt]);
+
+  if (state === 'queued') {
+    return <span className="widget-countdown">Queued</span>;
+  }
+  if (state === 'capturing') {
+    return <span className="widget-countdown">Refreshing</span>;
+  }
+  if (schedule?.paused) {
+    return <span className="widget-countdown paused">Paused</span>;
+  }
+  if (nextDueAt === null) {
+    return null;
+  }
+
+  return (
+    <span className="widget-countdown" title="Time until next refresh">
+      {formatRemaining(nextDueAt - now)}
+    </span>
+  );
+}
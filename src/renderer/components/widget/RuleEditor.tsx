@@ -0,0 +1,87 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { WidgetRule, RuleMetric, RuleOperator, RuleColor } from '../../../types/dashboard';
+
+interface RuleEditorProps {
+  rules: WidgetRule[];
+  onChange: (rules: WidgetRule[]) => void;
+}
+
+const OPERATORS: RuleOperator[] = ['>', '>=', '<', '<=', '=', '!='];
+
+/**
+ * Edit a text widget's threshold rules, e.g. "value > 100 → red" or
+ * "changed by > 20% → notify". Rules are evaluated by the main process.
+ */
+export function RuleEditor({ rules, onChange }: RuleEditorProps): React.ReactElement {
+  const updateRule = (id: string, changes: Partial<WidgetRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...rules,
+      { id: crypto.randomUUID(), metric: 'value', operator: '>', threshold: 0, color: 'red', notify: false },
+    ]);
+  };
+
+  return (
+    <div className="rule-editor">
+      {rules.map((rule) => (
+        <div key={rule.id} className="rule-row">
+          <select
+            value={rule.metric}
+            onChange={(e) => updateRule(rule.id, { metric: e.target.value as RuleMetric })}
+          >
+            <option value="value">Value</option>
+            <option value="change">Change (%)</option>
+          </select>
+          <select
+            value={rule.operator}
+            onChange={(e) => updateRule(rule.id, { operator: e.target.value as RuleOperator })}
+          >
+            {OPERATORS.map((operator) => (
+              <option key={operator} value={operator}>
+                {operator}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={rule.threshold}
+            onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) })}
+          />
+          <select
+            value={rule.color ?? ''}
+            onChange={(e) => updateRule(rule.id, { color: (e.target.value || null) as RuleColor | null })}
+            className={rule.color ? `rule-color-${rule.color}` : ''}
+          >
+            <option value="">No colour</option>
+            <option value="red">Red</option>
+            <option value="amber">Amber</option>
+            <option value="green">Green</option>
+          </select>
+          <label className="checkbox-label" title="Show a notification when the rule matches">
+            <input
+              type="checkbox"
+              checked={rule.notify}
+              onChange={(e) => updateRule(rule.id, { notify: e.target.checked })}
+            />
+            Notify
+          </label>
+          <button
+            className="widget-btn danger"
+            onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+            title="Remove rule"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button className="rule-add-btn" onClick={handleAdd}>
+        <Plus size={14} />
+        Add Rule
+      </button>
+    </div>
+  );
+}
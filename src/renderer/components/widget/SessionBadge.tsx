@@ -0,0 +1,30 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import type { SessionStatus } from '../../../types/dashboard';
+
+interface SessionBadgeProps {
+  status: SessionStatus | undefined;
+  // Icon only, for widget headers
+  compact?: boolean;
+}
+
+/**
+ * Whether a widget's or credential group's session was signed in at its last
+ * capture. Nothing is shown until a capture has checked it.
+ */
+export function SessionBadge({ status, compact = false }: SessionBadgeProps): React.ReactElement | null {
+  if (!status) return null;
+
+  const checked = `checked ${new Date(status.checkedAt).toLocaleString()}`;
+  return status.state === 'active' ? (
+    <span className="session-badge active" title={`Signed in (${checked})`}>
+      <ShieldCheck size={12} />
+      {!compact && 'Signed in'}
+    </span>
+  ) : (
+    <span className="session-badge auth-failed" title={`${status.message ?? 'Login failed'} (${checked})`}>
+      <ShieldAlert size={12} />
+      {!compact && 'Login failed'}
+    </span>
+  );
+}
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+
+interface SnapshotAgeProps {
+  capturedAt: number;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Shows how old the displayed snapshot is, so images restored from disk
+ * aren't mistaken for fresh captures
+ */
+export function SnapshotAge({ capturedAt }: SnapshotAgeProps): React.ReactElement {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [capturedAt]);
+
+  return (
+    <span className="widget-snapshot-age" title={`Captured ${new Date(capturedAt).toLocaleString()}`}>
+      {formatAge(now - capturedAt)}
+    </span>
+  );
+}
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, History } from 'lucide-react';
+import type { Widget, WidgetSnapshot, SnapshotDiff } from '../../../types/dashboard';
+
+interface SnapshotTimelineProps {
+  widget: Widget;
+  onClose: () => void;
+}
+
+type ViewMode = 'single' | 'side-by-side' | 'overlay' | 'diff';
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'single', label: 'Single' },
+  { value: 'side-by-side', label: 'Side by side' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'diff', label: 'Pixel diff' },
+];
+
+function formatTimestamp(capturedAt: number): string {
+  return new Date(capturedAt).toLocaleString();
+}
+
+/**
+ * Browse a widget's stored snapshots and compare any two of them.
+ * Images are loaded on demand and diffs are computed in the main process.
+ */
+export function SnapshotTimeline({ widget, onClose }: SnapshotTimelineProps): React.ReactElement {
+  // Oldest first so the slider reads left-to-right in time
+  const [snapshots, setSnapshots] = useState<WidgetSnapshot[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [compareId, setCompareId] = useState<string>('');
+  const [mode, setMode] = useState<ViewMode>('single');
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = snapshots[selectedIndex] ?? null;
+  const compare = snapshots.find((snapshot) => snapshot.id === compareId) ?? null;
+  const comparing = mode !== 'single' && compare !== null;
+
+  useEffect(() => {
+    window.api.snapshots.list(widget.id).then((result) => {
+      if (result.success && result.data) {
+        const ordered = [...result.data].reverse();
+        setSnapshots(ordered);
+        setSelectedIndex(Math.max(0, ordered.length - 1));
+        // Compare the latest capture against the one before it by default
+        if (ordered.length > 1) {
+          setCompareId(ordered[ordered.length - 2].id);
+        }
+      } else {
+        setError(result.error?.message ?? 'Failed to load snapshots');
+      }
+      setLoading(false);
+    });
+  }, [widget.id]);
+
+  // Load images that are shown but not cached yet
+  useEffect(() => {
+    const needed = [selected?.id, comparing ? compare?.id : undefined].filter(
+      (id): id is string => !!id && !images[id]
+    );
+    for (const id of needed) {
+      window.api.snapshots.getImage(id).then((result) => {
+        if (result.success && result.data) {
+          setImages((prev) => ({ ...prev, [id]: result.data! }));
+        }
+      });
+    }
+  }, [selected?.id, compare?.id, comparing, images]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (mode !== 'diff' || !selected || !compare) return;
+
+    let cancelled = false;
+    // Older snapshot is the base so the diff shows what changed since then
+    const [base, next] = compare.capturedAt <= selected.capturedAt ? [compare, selected] : [selected, compare];
+    window.api.snapshots.diff(base.id, next.id).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setDiff(result.data);
+      } else {
+        setError(result.error?.message ?? 'Failed to compare snapshots');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, selected, compare]);
+
+  const renderImage = (snapshot: WidgetSnapshot | null, style?: React.CSSProperties) => {
+    const src = snapshot ? images[snapshot.id] : undefined;
+    if (!src) {
+      return <div className="spinner"></div>;
+    }
+    return <img src={src} alt={snapshot ? formatTimestamp(snapshot.capturedAt) : ''} style={style} />;
+  };
+
+  const renderViewer = () => {
+    if (loading) {
+      return <div className="spinner"></div>;
+    }
+    if (!selected) {
+      return <p className="hint">No snapshots stored for this widget yet</p>;
+    }
+    if (!comparing) {
+      return renderImage(selected);
+    }
+    if (mode === 'side-by-side') {
+      return (
+        <div className="snapshot-side-by-side">
+          <figure>
+            {renderImage(compare)}
+            <figcaption>{formatTimestamp(compare.capturedAt)}</figcaption>
+          </figure>
+          <figure>
+            {renderImage(selected)}
+            <figcaption>{formatTimestamp(selected.capturedAt)}</figcaption>
+          </figure>
+        </div>
+      );
+    }
+    if (mode === 'overlay') {
+      return (
+        <div className="snapshot-overlay">
+          {renderImage(compare)}
+          {renderImage(selected, { opacity: overlayOpacity })}
+        </div>
+      );
+    }
+    if (!diff) {
+      return <div className="spinner"></div>;
+    }
+    return <img src={diff.data} alt="Pixel diff" />;
+  };
+
+  return createPortal(
+    <div className="widget-editor-overlay" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="widget-editor snapshot-timeline">
+        <button className="close-btn" onClick={onClose}>
+          <X size={20} />
+        </button>
+
+        <div className="editor-header">
+          <h2>
+            <History size={18} /> {widget.name} History
+          </h2>
+        </div>
+
+        <div className="snapshot-toolbar">
+          <div className="snapshot-modes">
+            {VIEW_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                className={mode === value ? 'active' : ''}
+                onClick={() => setMode(value)}
+                disabled={value !== 'single' && snapshots.length < 2}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode !== 'single' && (
+            <label>
+              Compare with
+              <select value={compareId} onChange={(e) => setCompareId(e.target.value)}>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id} disabled={snapshot.id === selected?.id}>
+                    {formatTimestamp(snapshot.capturedAt)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {mode === 'overlay' && (
+            <label>
+              Opacity
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={overlayOpacity}
+                onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+              />
+            </label>
+          )}
+          {mode === 'diff' && diff && (
+            <span className="snapshot-diff-summary">
+              {((diff.changedPixels / diff.totalPixels) * 100).toFixed(2)}% of pixels changed
+            </span>
+          )}
+        </div>
+
+        <div className="snapshot-viewer">{renderViewer()}</div>
+
+        {error && <p className="snapshot-error">{error}</p>}
+
+        {snapshots.length > 0 && (
+          <div className="snapshot-timeline-slider">
+            <input
+              type="range"
+              min={0}
+              max={snapshots.length - 1}
+              value={selectedIndex}
+              onChange={(e) => setSelectedIndex(Number(e.target.value))}
+            />
+            <span>
+              {selected && formatTimestamp(selected.capturedAt)} ({selectedIndex + 1} of {snapshots.length})
+            </span>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useWidgetValues } from '../../hooks/useWidgetValues';
+
+interface SparklineProps {
+  widgetId: string;
+  // Time of the latest capture, so the chart reloads when a new value arrives
+  capturedAt: number;
+}
+
+const WINDOWS = [
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+  { label: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30d', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+// SVG coordinate space; the chart stretches to the tile width
+const WIDTH = 200;
+const HEIGHT = 40;
+
+/**
+ * Line chart of a text widget's extracted values with min/max/avg over a selectable window
+ */
+export function Sparkline({ widgetId, capturedAt }: SparklineProps): React.ReactElement {
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  const values = useWidgetValues(widgetId, windowMs, capturedAt);
+
+  const numbers = values.map((point) => point.value);
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  const avg = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+
+  let points = '';
+  if (values.length > 1) {
+    const start = values[0].capturedAt;
+    const span = values[values.length - 1].capturedAt - start || 1;
+    const range = max - min || 1;
+    points = values
+      .map((point) => {
+        const x = ((point.capturedAt - start) / span) * WIDTH;
+        // Flat series sit in the middle instead of on the bottom edge
+        const y = max === min ? HEIGHT / 2 : HEIGHT - ((point.value - min) / range) * HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }
+
+  return (
+    <div className="sparkline" onMouseDown={(e) => e.stopPropagation()}>
+      {points ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+          <polyline points={points} vectorEffect="non-scaling-stroke" />
+        </svg>
+      ) : (
+        <div className="sparkline-empty">Not enough data yet</div>
+      )}
+      <div className="sparkline-footer">
+        {numbers.length > 0 && (
+          <span className="sparkline-stats">
+            min {formatNumber(min)} · max {formatNumber(max)} · avg {formatNumber(avg)}
+          </span>
+        )}
+        <select value={windowMs} onChange={(e) => setWindowMs(Number(e.target.value))}>
+          {WINDOWS.map((option) => (
+            <option key={option.label} value={option.ms}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import type { SelectorType, SelectorData, TextSelectorData } from '../../../types/dashboard';
+
+interface TextExtractionOptionsProps {
+  selectorType: SelectorType;
+  selectorData: SelectorData;
+  onChange: (selectorType: SelectorType, selectorData: SelectorData) => void;
+}
+
+/**
+ * Choose whether selected elements are shown as a screenshot or as extracted
+ * text / a number (KPI tile). Only applies to element selections, not crop regions.
+ */
+export function TextExtractionOptions({
+  selectorType,
+  selectorData,
+  onChange,
+}: TextExtractionOptionsProps): React.ReactElement | null {
+  if (selectorType === 'crop') {
+    return null;
+  }
+
+  const { selectors, locators } = selectorData as TextSelectorData;
+  const textData: TextSelectorData =
+    selectorType === 'text' ? (selectorData as TextSelectorData) : { selectors, locators, parseNumber: false };
+
+  const handleModeChange = (mode: 'css' | 'text' | 'number') => {
+    if (mode === 'css') {
+      onChange('css', { selectors, locators });
+    } else {
+      onChange('text', { ...textData, parseNumber: mode === 'number' });
+    }
+  };
+
+  const mode = selectorType === 'css' ? 'css' : textData.parseNumber ? 'number' : 'text';
+
+  return (
+    <div className="text-extraction-options">
+      <label>
+        Display as
+        <select value={mode} onChange={(e) => handleModeChange(e.target.value as 'css' | 'text' | 'number')}>
+          <option value="css">Screenshot</option>
+          <option value="text">Text</option>
+          <option value="number">Number (KPI tile)</option>
+        </select>
+      </label>
+      {mode === 'number' && (
+        <label>
+          Number pattern (optional regex)
+          <input
+            type="text"
+            value={textData.numberPattern ?? ''}
+            onChange={(e) => onChange('text', { ...textData, numberPattern: e.target.value || undefined })}
+            placeholder="e.g. Revenue: \$([\d,.]+)"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { VIEWPORT_PRESETS } from '../../../types/dashboard';
+import type { WidgetViewport, ViewportPreset } from '../../../types/dashboard';
+
+interface ViewportSelectorProps {
+  viewport: WidgetViewport;
+  onChange: (viewport: WidgetViewport) => void;
+}
+
+const PRESET_LABELS: Record<ViewportPreset, string> = {
+  desktop: 'Desktop',
+  laptop: 'Laptop',
+  tablet: 'Tablet',
+  phone: 'Phone',
+  custom: 'Custom',
+};
+
+/**
+ * Viewport the page is rendered in by the picker and capture windows.
+ * Presets fill in size, scale factor and user agent; custom edits them directly.
+ */
+export function ViewportSelector({ viewport, onChange }: ViewportSelectorProps): React.ReactElement {
+  const handlePresetChange = (preset: ViewportPreset) => {
+    onChange(preset === 'custom' ? { ...viewport, preset } : VIEWPORT_PRESETS[preset]);
+  };
+
+  const presetLabel = (preset: ViewportPreset) =>
+    preset === 'custom'
+      ? PRESET_LABELS.custom
+      : `${PRESET_LABELS[preset]} (${VIEWPORT_PRESETS[preset].width}×${VIEWPORT_PRESETS[preset].height})`;
+
+  return (
+    <div className="wait-strategy-options">
+      <label>
+        Viewport
+        <select value={viewport.preset} onChange={(e) => handlePresetChange(e.target.value as ViewportPreset)}>
+          {(Object.keys(PRESET_LABELS) as ViewportPreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {presetLabel(preset)}
+            </option>
+          ))}
+        </select>
+      </label>
+      {viewport.preset === 'custom' && (
+        <>
+          <div className="viewport-size">
+            <label>
+              Width
+              <input
+                type="number"
+                min={320}
+                max={3840}
+                value={viewport.width}
+                onChange={(e) => onChange({ ...viewport, width: Math.max(320, Number(e.target.value)) })}
+              />
+            </label>
+            <label>
+              Height
+              <input
+                type="number"
+                min={320}
+                max={2160}
+                value={viewport.height}
+                onChange={(e) => onChange({ ...viewport, height: Math.max(320, Number(e.target.value)) })}
+              />
+            </label>
+            <label>
+              Scale
+              <select
+                value={viewport.deviceScaleFactor}
+                onChange={(e) => onChange({ ...viewport, deviceScaleFactor: Number(e.target.value) })}
+              >
+                <option value={1}>1x</option>
+                <option value={2}>2x</option>
+                <option value={3}>3x</option>
+              </select>
+            </label>
+          </div>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={viewport.mobile}
+              onChange={(e) => onChange({ ...viewport, mobile: e.target.checked })}
+            />
+            Emulate a mobile device
+          </label>
+          <label>
+            User agent
+            <input
+              type="text"
+              value={viewport.userAgent}
+              onChange={(e) => onChange({ ...viewport, userAgent: e.target.value })}
+              placeholder="Default"
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,49 @@
-import React, { useState, useCallback } from 'react';
-import { RefreshCw, Trash2, Settings, ExternalLink, GripVertical, Copy, ZoomIn, ZoomOut } from 'lucide-react';
+import React, { useState } from 'react';
+import {
+  RefreshCw,
+  Trash2,
+  Settings,
+  ExternalLink,
+  GripVertical,
+  Copy,
+  ZoomIn,
+  ZoomOut,
+  Pause,
+  Play,
+  History,
+  BellRing,
+  TriangleAlert,
+  LogIn,
+} from 'lucide-react';
 import { useWidgets } from '../../hooks/useWidgets';
 import { useDashboardContext } from '../../context/DashboardContext';
-import { useAutoRefresh } from '../../hooks/useAutoRefresh';
+import { useWidgetCapture } from '../../hooks/useWidgetCapture';
+import { useSessionStatuses } from '../../hooks/useSessionStatuses';
 import { WidgetWebview } from './WidgetWebview';
 import { WidgetEditor } from './WidgetEditor';
+import { RefreshCountdown } from './RefreshCountdown';
+import { SnapshotTimeline } from './SnapshotTimeline';
+import { SessionBadge } from './SessionBadge';
 import type { Widget as WidgetType } from '../../../types/dashboard';
 
 interface WidgetProps {
   widget: WidgetType;
+  // True when change detection raised an alert that hasn't been acknowledged
+  alerting?: boolean;
+  onAcknowledgeAlert?: () => void;
 }
 
-export function Widget({ widget }: WidgetProps): React.ReactElement {
+export function Widget({ widget, alerting = false, onAcknowledgeAlert }: WidgetProps): React.ReactElement {
   const { deleteWidget, createWidget, updateWidget } = useWidgets();
   const { refreshWidgets } = useDashboardContext();
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [refreshKey, setRefreshKey] = useState(0);
   const [showEditor, setShowEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [signingIn, setSigningIn] = useState(false);
 
-  const handleRefresh = useCallback(() => {
-    setIsRefreshing(true);
-    setRefreshKey((k) => k + 1);
-    setTimeout(() => setIsRefreshing(false), 1000);
-  }, []);
-
-  // Set up auto-refresh based on widget.refreshInterval
-  useAutoRefresh(widget, handleRefresh);
+  // Refresh timers live in the main process scheduler; this only listens for results
+  const { result, state, schedule, refresh: handleRefresh } = useWidgetCapture(widget.id);
+  const isRefreshing = state !== 'idle';
+  const sessionStatus = useSessionStatuses().get(widget.partition);
 
   const handleDelete = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -47,6 +65,33 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
     setShowEditor(true);
   };
 
+  const handleAcknowledgeClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onAcknowledgeAlert?.();
+  };
+
+  const handleHistoryClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setShowHistory(true);
+  };
+
+  // Sign in by hand when automatic login can't; the widget is captured again afterwards
+  const handleSignInClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setSigningIn(true);
+    try {
+      const result = await window.api.sessions.signIn(widget.partition);
+      if (!result.success) {
+        console.error('Failed to open the sign-in window:', result.error);
+      }
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
   const handleOpenExternal = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
@@ -58,6 +103,12 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
     handleRefresh(); // Refresh after editing
   };
 
+  const handleTogglePause = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    await updateWidget(widget.id, { refreshPaused: !widget.refreshPaused });
+  };
+
   const handleZoomIn = async (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
@@ -82,6 +133,20 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
       selectorData: widget.selectorData,
       refreshInterval: widget.refreshInterval,
       zoomLevel: widget.zoomLevel,
+      // Same viewport so the copied selection lines up
+      viewport: widget.viewport,
+      hiddenSelectors: widget.hiddenSelectors,
+      macro: widget.macro,
+      displayMode: widget.displayMode,
+      captureOptions: widget.captureOptions,
+      preCaptureCss: widget.preCaptureCss,
+      preCaptureJs: widget.preCaptureJs,
+      waitStrategy: widget.waitStrategy,
+      snapshotRetentionCount: widget.snapshotRetentionCount,
+      snapshotRetentionDays: widget.snapshotRetentionDays,
+      alertMode: widget.alertMode,
+      alertThreshold: widget.alertThreshold,
+      rules: widget.rules,
       credentialGroupId: widget.credentialGroupId ?? undefined,
       // Preserve the partition so duplicated widget shares the same session
       // (credential group widgets get their partition from the group in handlers.ts)
@@ -99,6 +164,11 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
           usernameSelector: credResult.data.usernameSelector,
           passwordSelector: credResult.data.passwordSelector,
           submitSelector: credResult.data.submitSelector,
+          loginSteps: credResult.data.loginSteps,
+          totpSecret: credResult.data.totpSecret,
+          totpSelector: credResult.data.totpSelector,
+          successSelector: credResult.data.successSelector,
+          successUrl: credResult.data.successUrl,
         });
         // Refresh widgets to get updated has_credentials flag
         await refreshWidgets();
@@ -108,13 +178,44 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
 
   return (
     <>
-      <div className="widget">
-        <div className="widget-header">
+      <div className={`widget ${alerting ? 'alerting' : ''}`}>
+        <div className={`widget-header ${result?.ruleStatus ? `rule-${result.ruleStatus}` : ''}`}>
           <div className="widget-drag-handle" title="Drag to move">
             <GripVertical size={14} />
           </div>
           <span className="widget-title" onMouseDown={(e) => e.stopPropagation()}>{widget.name}</span>
+          <SessionBadge status={sessionStatus} compact />
+          <RefreshCountdown schedule={schedule} state={state} />
           <div className="widget-controls" onMouseDown={(e) => e.stopPropagation()}>
+            {sessionStatus?.state === 'auth-failed' && (
+              <button
+                className="widget-btn danger"
+                onClick={handleSignInClick}
+                disabled={signingIn}
+                title="Sign in again"
+              >
+                <LogIn size={14} />
+              </button>
+            )}
+            {result?.locatorWarning && (
+              <button className="widget-btn warning" onClick={handleEditClick} title={result.locatorWarning}>
+                <TriangleAlert size={14} />
+              </button>
+            )}
+            {alerting && (
+              <button className="widget-btn alert" onClick={handleAcknowledgeClick} title="Changed - mark as seen">
+                <BellRing size={14} />
+              </button>
+            )}
+            {widget.refreshInterval > 0 && (
+              <button
+                className="widget-btn"
+                onClick={handleTogglePause}
+                title={widget.refreshPaused ? 'Resume auto-refresh' : 'Pause auto-refresh'}
+              >
+                {widget.refreshPaused ? <Play size={14} /> : <Pause size={14} />}
+              </button>
+            )}
             <button
               className="widget-btn"
               onClick={handleRefreshClick}
@@ -123,6 +224,9 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
             >
               <RefreshCw size={14} className={isRefreshing ? 'spinning' : ''} />
             </button>
+            <button className="widget-btn" onClick={handleHistoryClick} title="History">
+              <History size={14} />
+            </button>
             <button className="widget-btn" onClick={handleOpenExternal} title="Open in browser">
               <ExternalLink size={14} />
             </button>
@@ -154,10 +258,11 @@ export function Widget({ widget }: WidgetProps): React.ReactElement {
           </div>
         </div>
         <div className="widget-content">
-          <WidgetWebview widget={widget} refreshKey={refreshKey} />
+          <WidgetWebview widget={widget} result={result} state={state} onRetry={handleRefresh} />
         </div>
       </div>
       {showEditor && <WidgetEditor widget={widget} onClose={handleEditorClose} />}
+      {showHistory && <SnapshotTimeline widget={widget} onClose={() => setShowHistory(false)} />}
     </>
   );
 }
@@ -1,10 +1,51 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Clock, Key, MousePointer, Check, Globe, ZoomIn, ZoomOut, Plus } from 'lucide-react';
+import {
+  X,
+  Clock,
+  Key,
+  MousePointer,
+  Check,
+  Globe,
+  ZoomIn,
+  ZoomOut,
+  Plus,
+  Hourglass,
+  History,
+  Bell,
+  Gauge,
+  Monitor,
+  Maximize,
+  Code,
+  MousePointerClick,
+} from 'lucide-react';
 import { useWidgets } from '../../hooks/useWidgets';
 import { useCredentialGroups } from '../../hooks/useCredentialGroups';
 import { CredentialGroupCreator } from '../credential-groups/CredentialGroupCreator';
-import type { Widget, SaveCredentialsData, SelectorType, SelectorData, CreateCredentialGroupData } from '../../../types/dashboard';
+import { LoginStepsEditor } from '../credential-groups/LoginStepsEditor';
+import { TextExtractionOptions } from './TextExtractionOptions';
+import { RuleEditor } from './RuleEditor';
+import { CompositeOptions } from './CompositeOptions';
+import { ViewportSelector } from './ViewportSelector';
+import { MacroEditor } from './MacroEditor';
+import type {
+  Widget,
+  SaveCredentialsData,
+  SelectorType,
+  SelectorData,
+  CreateCredentialGroupData,
+  WaitStrategy,
+  WaitStrategyType,
+  AlertMode,
+  CssSelectorData,
+  CropSelectorData,
+  TextSelectorData,
+  WidgetRule,
+  DisplayMode,
+  CaptureOptions,
+  WidgetViewport,
+  MacroStep,
+} from '../../../types/dashboard';
 
 interface WidgetEditorProps {
   widget: Widget;
@@ -13,6 +54,9 @@ interface WidgetEditorProps {
 
 type AuthMode = 'credential-group' | 'per-widget' | 'none';
 
+// Mirrors DEFAULT_WAIT_TIMEOUT_MS in src/capture/readiness.ts
+const DEFAULT_WAIT_TIMEOUT_MS = 15000;
+
 export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.ReactElement {
   const { updateWidget } = useWidgets();
   const { groups, createGroup } = useCredentialGroups();
@@ -20,9 +64,24 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
   const [url, setUrl] = useState(widget.url);
   const [selectorType, setSelectorType] = useState<SelectorType>(widget.selectorType);
   const [selectorData, setSelectorData] = useState<SelectorData>(widget.selectorData);
+  const cropAnchor = selectorType === 'crop' ? (selectorData as CropSelectorData).anchor : undefined;
   const [hasNewSelection, setHasNewSelection] = useState(false);
   const [refreshInterval, setRefreshInterval] = useState(widget.refreshInterval);
   const [zoomLevel, setZoomLevel] = useState(widget.zoomLevel);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(widget.displayMode);
+  const [captureOptions, setCaptureOptions] = useState<CaptureOptions>(widget.captureOptions);
+  const [viewport, setViewport] = useState<WidgetViewport>(widget.viewport);
+  const [preCaptureCss, setPreCaptureCss] = useState(widget.preCaptureCss ?? '');
+  const [preCaptureJs, setPreCaptureJs] = useState(widget.preCaptureJs ?? '');
+  const [hiddenSelectors, setHiddenSelectors] = useState<string[]>(widget.hiddenSelectors);
+  const [macro, setMacro] = useState<MacroStep[]>(widget.macro);
+  // null means the default strategy (wait for the widget's own selectors)
+  const [waitStrategy, setWaitStrategy] = useState<WaitStrategy | null>(widget.waitStrategy);
+  const [snapshotRetentionCount, setSnapshotRetentionCount] = useState(widget.snapshotRetentionCount);
+  const [snapshotRetentionDays, setSnapshotRetentionDays] = useState(widget.snapshotRetentionDays);
+  const [alertMode, setAlertMode] = useState<AlertMode>(widget.alertMode);
+  const [alertThreshold, setAlertThreshold] = useState(widget.alertThreshold);
+  const [rules, setRules] = useState<WidgetRule[]>(widget.rules);
 
   // Auth mode state - determine initial mode from widget
   const getInitialAuthMode = (): AuthMode => {
@@ -56,6 +115,11 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
             usernameSelector: result.data.usernameSelector,
             passwordSelector: result.data.passwordSelector,
             submitSelector: result.data.submitSelector,
+            loginSteps: result.data.loginSteps,
+            totpSecret: result.data.totpSecret,
+            totpSelector: result.data.totpSelector,
+            successSelector: result.data.successSelector,
+            successUrl: result.data.successUrl,
           });
         }
       });
@@ -68,10 +132,24 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
     try {
       // Pass the widget's partition so the picker shares the same session
       // This allows logging in during selection and keeping the session
-      const result = await window.api.widgetPicker.open(url, widget.partition);
+      const result = await window.api.widgetPicker.open(url, widget.partition, viewport);
       if (result.success && result.data) {
-        setSelectorType(result.data.selectorType as SelectorType);
-        setSelectorData(result.data.selectorData as SelectorData);
+        const picked = result.data.selectorData as SelectorData;
+        if (selectorType !== 'crop' && result.data.selectorType === 'css') {
+          // Keep the display, text parsing and layout options for the new elements
+          const { selectors, locators } = picked as CssSelectorData;
+          setSelectorData({ ...selectorData, selectors, locators });
+        } else {
+          setSelectorType(result.data.selectorType as SelectorType);
+          setSelectorData(picked);
+        }
+        // Elements hidden in this picker session add to the ones hidden before
+        const newlyHidden = result.data.hiddenSelectors ?? [];
+        setHiddenSelectors((current) => [...new Set([...current, ...newlyHidden])]);
+        // A new recording replaces the old steps; picking without recording keeps them
+        if (result.data.macroSteps && result.data.macroSteps.length > 0) {
+          setMacro(result.data.macroSteps);
+        }
         setHasNewSelection(true);
       }
     } catch (err) {
@@ -92,6 +170,8 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
           usernameSelector: result.data.usernameSelector,
           passwordSelector: result.data.passwordSelector,
           submitSelector: result.data.submitSelector,
+          totpSelector: result.data.totpSelector,
+          loginSteps: result.data.loginSteps,
         });
       }
     } catch (err) {
@@ -101,6 +181,20 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
     }
   };
 
+  const handleWaitTypeChange = (type: WaitStrategyType | 'default') => {
+    if (type === 'default') {
+      setWaitStrategy(null);
+      return;
+    }
+    setWaitStrategy({
+      type,
+      selector: type === 'selector' ? (waitStrategy?.selector ?? '') : undefined,
+      script: type === 'predicate' ? (waitStrategy?.script ?? '') : undefined,
+      delayMs: type === 'delay' ? (waitStrategy?.delayMs ?? 2000) : undefined,
+      timeoutMs: waitStrategy?.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+    });
+  };
+
   const handleCreateCredentialGroup = async (data: CreateCredentialGroupData) => {
     const group = await createGroup(data);
     if (group) {
@@ -117,6 +211,19 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
         name,
         refreshInterval,
         zoomLevel,
+        displayMode,
+        captureOptions,
+        viewport,
+        preCaptureCss,
+        preCaptureJs,
+        hiddenSelectors,
+        macro,
+        waitStrategy,
+        snapshotRetentionCount,
+        snapshotRetentionDays,
+        alertMode,
+        alertThreshold,
+        rules,
       };
 
       // Include URL if changed
@@ -155,8 +262,11 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
       await updateWidget(widget.id, updateData);
 
       // Save per-widget credentials if using that mode
-      if (authMode === 'per-widget' && credentials.username && credentials.usernameSelector) {
-        await window.api.credentials.save(widget.id, credentials);
+      if (authMode === 'per-widget' && credentials.username && hasSelectors) {
+        const saved = await window.api.credentials.save(widget.id, credentials);
+        if (!saved.success) {
+          throw new Error(saved.error?.message ?? 'Failed to save credentials');
+        }
       }
 
       onClose();
@@ -167,10 +277,16 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
     }
   };
 
-  const hasSelectors = credentials.usernameSelector && credentials.passwordSelector;
+  const hasSelectors =
+    (credentials.usernameSelector && credentials.passwordSelector) || !!credentials.loginSteps?.length;
+  const defaultWaitSelector =
+    selectorType !== 'crop' ? ((selectorData as { selectors: string[] })?.selectors ?? []).join(', ') : '';
 
   // Determine if save button should be disabled
   const canSave = () => {
+    if (waitStrategy?.type === 'predicate' && !waitStrategy.script?.trim()) {
+      return false;
+    }
     if (authMode === 'credential-group') {
       return !!selectedGroupId;
     }
@@ -235,11 +351,40 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
               Content Selection
             </label>
             <p className="hint" style={{ margin: '4px 0 8px', fontSize: '12px', color: '#666' }}>
-              {selectorType === 'css'
+              {selectorType !== 'crop'
                 ? `Currently selecting ${(selectorData as { selectors: string[] })?.selectors?.length || 0} element(s)`
                 : 'Currently using crop region'}
               {hasNewSelection && ' (modified)'}
             </p>
+            {cropAnchor && (
+              <p className="hint crop-anchor">
+                Region follows the &lt;{cropAnchor.locator.fingerprint.tagName}&gt; element it was drawn on
+                <button
+                  type="button"
+                  onClick={() => {
+                    const { anchor: _anchor, ...fixed } = selectorData as CropSelectorData;
+                    setSelectorData(fixed);
+                    setHasNewSelection(true);
+                  }}
+                >
+                  Use fixed position
+                </button>
+              </p>
+            )}
+            {hiddenSelectors.length > 0 && (
+              <p className="hint hidden-elements">
+                Hiding {hiddenSelectors.length} element(s) before capture
+                <button type="button" onClick={() => setHiddenSelectors([])}>
+                  Show all
+                </button>
+              </p>
+            )}
+            <ViewportSelector viewport={viewport} onChange={setViewport} />
+            {selectorType === 'crop' && !hasNewSelection && viewport !== widget.viewport && (
+              <p className="hint" style={{ textAlign: 'left', color: 'var(--color-warning)' }}>
+                Re-select the crop region so it matches the new viewport
+              </p>
+            )}
             <button
               className="selector-btn"
               onClick={handleOpenPicker}
@@ -257,6 +402,24 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
                 </>
               )}
             </button>
+            <TextExtractionOptions
+              selectorType={selectorType}
+              selectorData={selectorData}
+              onChange={(type, data) => {
+                setSelectorType(type);
+                setSelectorData(data);
+                setHasNewSelection(true);
+              }}
+            />
+            {selectorType === 'css' && (
+              <CompositeOptions
+                selectorData={selectorData as CssSelectorData}
+                onChange={(data) => {
+                  setSelectorData(data);
+                  setHasNewSelection(true);
+                }}
+              />
+            )}
           </div>
 
           <div className="editor-section">
@@ -277,6 +440,253 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
             </label>
           </div>
 
+          <div className="editor-section">
+            <label>
+              <Maximize size={16} />
+              Capture Size
+            </label>
+            <div className="wait-strategy-options">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={captureOptions.fullPage}
+                  onChange={(e) => setCaptureOptions({ ...captureOptions, fullPage: e.target.checked })}
+                />
+                Capture the full page instead of the selection
+              </label>
+              <label>
+                Maximum height
+                <select
+                  value={captureOptions.maxHeight}
+                  onChange={(e) => setCaptureOptions({ ...captureOptions, maxHeight: Number(e.target.value) })}
+                >
+                  <option value={2000}>2,000 px</option>
+                  <option value={5000}>5,000 px</option>
+                  <option value={10000}>10,000 px</option>
+                  <option value={20000}>20,000 px</option>
+                </select>
+              </label>
+              <p className="hint">
+                Content taller than the capture window is scrolled through and stitched together, up to this height
+              </p>
+            </div>
+          </div>
+
+          <div className="editor-section">
+            <label>
+              <Hourglass size={16} />
+              Wait Before Capture
+              <select
+                value={waitStrategy?.type ?? 'default'}
+                onChange={(e) => handleWaitTypeChange(e.target.value as WaitStrategyType | 'default')}
+              >
+                <option value="default">
+                  {selectorType !== 'crop' ? 'Default (selected elements appear)' : 'Default (network idle)'}
+                </option>
+                <option value="selector">Element appears</option>
+                <option value="network-idle">Network idle</option>
+                <option value="predicate">Custom JavaScript condition</option>
+                <option value="delay">Fixed delay</option>
+              </select>
+            </label>
+            {waitStrategy?.type === 'selector' && (
+              <div className="wait-strategy-options">
+                <input
+                  type="text"
+                  value={waitStrategy.selector ?? ''}
+                  onChange={(e) => setWaitStrategy({ ...waitStrategy, selector: e.target.value })}
+                  placeholder={defaultWaitSelector || 'CSS selector, e.g. .chart svg'}
+                />
+                <p className="hint">Leave empty to wait for the selected elements of this widget</p>
+              </div>
+            )}
+            {waitStrategy?.type === 'predicate' && (
+              <div className="wait-strategy-options">
+                <textarea
+                  rows={3}
+                  value={waitStrategy.script ?? ''}
+                  onChange={(e) => setWaitStrategy({ ...waitStrategy, script: e.target.value })}
+                  placeholder="document.querySelectorAll('.row').length > 0"
+                />
+                <p className="hint">A JavaScript expression evaluated in the page until it is truthy</p>
+              </div>
+            )}
+            {waitStrategy?.type === 'delay' && (
+              <div className="wait-strategy-options">
+                <label>
+                  Delay (seconds)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={(waitStrategy.delayMs ?? 0) / 1000}
+                    onChange={(e) =>
+                      setWaitStrategy({ ...waitStrategy, delayMs: Math.max(0, Number(e.target.value)) * 1000 })
+                    }
+                  />
+                </label>
+              </div>
+            )}
+            {waitStrategy && waitStrategy.type !== 'delay' && (
+              <div className="wait-strategy-options">
+                <label>
+                  Timeout (seconds)
+                  <input
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={waitStrategy.timeoutMs / 1000}
+                    onChange={(e) =>
+                      setWaitStrategy({ ...waitStrategy, timeoutMs: Math.max(1, Number(e.target.value)) * 1000 })
+                    }
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div className="editor-section">
+            <label>
+              <MousePointerClick size={16} />
+              Interaction Steps
+            </label>
+            <MacroEditor widgetId={widget.id} steps={macro} onChange={setMacro} />
+          </div>
+
+          <div className="editor-section">
+            <label>
+              <Code size={16} />
+              Before Capture
+            </label>
+            <div className="wait-strategy-options">
+              <label>
+                CSS to inject
+                <textarea
+                  rows={3}
+                  value={preCaptureCss}
+                  onChange={(e) => setPreCaptureCss(e.target.value)}
+                  placeholder=".cookie-banner, .chat-widget { display: none !important; }"
+                />
+              </label>
+              <label>
+                JavaScript to run
+                <textarea
+                  rows={3}
+                  value={preCaptureJs}
+                  onChange={(e) => setPreCaptureJs(e.target.value)}
+                  placeholder="document.querySelector('.dismiss')?.click();"
+                />
+              </label>
+              <p className="hint">
+                Runs once the page is ready, before the selection is captured. Use await to wait for the page to
+                update (up to 10 seconds).
+              </p>
+            </div>
+          </div>
+
+          <div className="editor-section">
+            <label>
+              <Bell size={16} />
+              Change Detection
+              <select value={alertMode} onChange={(e) => setAlertMode(e.target.value as AlertMode)}>
+                <option value="off">Off</option>
+                <option value="pixel">Alert when the image changes</option>
+                <option value="text" disabled={selectorType === 'crop'}>
+                  Alert when the text changes
+                </option>
+              </select>
+            </label>
+            {alertMode === 'pixel' && (
+              <div className="wait-strategy-options">
+                <label>
+                  Minimum changed pixels (%)
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={alertThreshold}
+                    onChange={(e) => setAlertThreshold(Math.min(100, Math.max(0, Number(e.target.value))))}
+                  />
+                </label>
+              </div>
+            )}
+            {alertMode !== 'off' && (
+              <p className="hint" style={{ textAlign: 'left', marginTop: '4px' }}>
+                Shows a desktop notification and highlights the widget when a capture differs from the previous one
+              </p>
+            )}
+          </div>
+
+          {selectorType === 'text' && (selectorData as TextSelectorData).parseNumber && (
+            <div className="editor-section">
+              <label>
+                <Gauge size={16} />
+                Threshold Rules
+              </label>
+              <RuleEditor rules={rules} onChange={setRules} />
+              <p className="hint" style={{ textAlign: 'left', marginTop: '4px' }}>
+                Colours the widget header while a rule matches. Checked rules also notify when they start matching.
+              </p>
+            </div>
+          )}
+
+          <div className="editor-section">
+            <label>
+              <History size={16} />
+              Snapshot History
+            </label>
+            <div className="wait-strategy-options">
+              <label>
+                Keep at most
+                <select
+                  value={snapshotRetentionCount}
+                  onChange={(e) => setSnapshotRetentionCount(Number(e.target.value))}
+                >
+                  <option value={1}>Latest capture only</option>
+                  <option value={25}>25 captures</option>
+                  <option value={100}>100 captures</option>
+                  <option value={500}>500 captures</option>
+                  <option value={0}>Unlimited captures</option>
+                </select>
+              </label>
+              <label>
+                Keep for
+                <select
+                  value={snapshotRetentionDays}
+                  onChange={(e) => setSnapshotRetentionDays(Number(e.target.value))}
+                >
+                  <option value={1}>1 day</option>
+                  <option value={7}>7 days</option>
+                  <option value={30}>30 days</option>
+                  <option value={90}>90 days</option>
+                  <option value={0}>Forever</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="editor-section">
+            <label>
+              <Monitor size={16} />
+              Display
+              <select
+                value={selectorType === 'text' ? 'snapshot' : displayMode}
+                onChange={(e) => setDisplayMode(e.target.value as DisplayMode)}
+                disabled={selectorType === 'text'}
+              >
+                <option value="snapshot">Snapshot (latest capture)</option>
+                <option value="live">Live (interactive page)</option>
+              </select>
+            </label>
+            {displayMode === 'live' && selectorType !== 'text' && (
+              <p className="hint" style={{ textAlign: 'left', marginTop: '4px' }}>
+                Loads the page in the widget so you can click, hover and scroll. Falls back to the latest
+                snapshot if the page or selection fails to load.
+              </p>
+            )}
+          </div>
+
           <div className="editor-section">
             <label>
               <ZoomIn size={16} />
@@ -389,6 +799,12 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
                     onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
                     placeholder="Password"
                   />
+                  <input
+                    type="password"
+                    value={credentials.totpSecret ?? ''}
+                    onChange={(e) => setCredentials({ ...credentials, totpSecret: e.target.value })}
+                    placeholder="2FA secret key or otpauth:// URI (optional)"
+                  />
                   <input
                     type="text"
                     value={credentials.loginUrl}
@@ -408,7 +824,7 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
                     ) : hasSelectors ? (
                       <>
                         <Check size={16} />
-                        Form Fields Selected
+                        {credentials.loginSteps?.length ? 'Login Steps Recorded' : 'Form Fields Selected'}
                       </>
                     ) : (
                       <>
@@ -417,6 +833,24 @@ export function WidgetEditor({ widget, onClose }: WidgetEditorProps): React.Reac
                       </>
                     )}
                   </button>
+                  {!!credentials.loginSteps?.length && (
+                    <LoginStepsEditor
+                      steps={credentials.loginSteps}
+                      onChange={(loginSteps) => setCredentials({ ...credentials, loginSteps })}
+                    />
+                  )}
+                  <input
+                    type="text"
+                    value={credentials.successSelector ?? ''}
+                    onChange={(e) => setCredentials({ ...credentials, successSelector: e.target.value })}
+                    placeholder="Element only shown when signed in (optional)"
+                  />
+                  <input
+                    type="text"
+                    value={credentials.successUrl ?? ''}
+                    onChange={(e) => setCredentials({ ...credentials, successUrl: e.target.value })}
+                    placeholder="Part of the URL when signed in (optional)"
+                  />
                 </div>
               )}
             </div>
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import type { Dashboard, Widget } from '../../types/dashboard';
+import type { Dashboard, Widget, UpdateDashboardData } from '../../types/dashboard';
 
 interface DashboardContextType {
   dashboards: Dashboard[];
@@ -9,7 +9,7 @@ interface DashboardContextType {
   error: string | null;
   setCurrentDashboard: (dashboard: Dashboard | null) => void;
   createDashboard: (name: string) => Promise<Dashboard | null>;
-  updateDashboard: (id: string, name: string) => Promise<void>;
+  updateDashboard: (id: string, data: UpdateDashboardData) => Promise<void>;
   deleteDashboard: (id: string) => Promise<void>;
   refreshDashboards: () => Promise<void>;
   refreshWidgets: () => Promise<void>;
@@ -86,9 +86,9 @@ export function DashboardProvider({ children }: DashboardProviderProps): React.R
     }
   }, [refreshDashboards]);
 
-  const updateDashboard = useCallback(async (id: string, name: string): Promise<void> => {
+  const updateDashboard = useCallback(async (id: string, data: UpdateDashboardData): Promise<void> => {
     try {
-      const result = await window.api.dashboards.update(id, { name });
+      const result = await window.api.dashboards.update(id, data);
       if (result.success) {
         await refreshDashboards();
         if (currentDashboard?.id === id && result.data) {
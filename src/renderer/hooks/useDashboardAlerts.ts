@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { WidgetAlert } from '../../types/dashboard';
+
+interface UseDashboardAlertsReturn {
+  alerts: WidgetAlert[];
+  // Widgets with alerts that haven't been acknowledged yet (highlighted on the dashboard)
+  alertingWidgetIds: Set<string>;
+  unacknowledgedCount: number;
+  acknowledge: (widgetId?: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Load a dashboard's change detection alerts and listen for new ones.
+ * Alerts are detected and recorded by the main process after each capture.
+ */
+export function useDashboardAlerts(dashboardId: string | null): UseDashboardAlertsReturn {
+  const [alerts, setAlerts] = useState<WidgetAlert[]>([]);
+
+  useEffect(() => {
+    setAlerts([]);
+    if (!dashboardId) return;
+
+    let cancelled = false;
+    window.api.alerts.list(dashboardId).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setAlerts(result.data);
+      }
+    });
+
+    const unsubscribe = window.api.alerts.onAlert((alert) => {
+      if (alert.dashboardId === dashboardId) {
+        setAlerts((prev) => [alert, ...prev]);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [dashboardId]);
+
+  const acknowledge = useCallback(
+    async (widgetId?: string) => {
+      if (!dashboardId) return;
+      await window.api.alerts.acknowledge(dashboardId, widgetId);
+      setAlerts((prev) =>
+        prev.map((alert) => (!widgetId || alert.widgetId === widgetId ? { ...alert, acknowledged: true } : alert))
+      );
+    },
+    [dashboardId]
+  );
+
+  const clear = useCallback(async () => {
+    if (!dashboardId) return;
+    await window.api.alerts.clear(dashboardId);
+    setAlerts([]);
+  }, [dashboardId]);
+
+  const alertingWidgetIds = useMemo(
+    () => new Set(alerts.filter((alert) => !alert.acknowledged).map((alert) => alert.widgetId)),
+    [alerts]
+  );
+  const unacknowledgedCount = alerts.filter((alert) => !alert.acknowledged).length;
+
+  return { alerts, alertingWidgetIds, unacknowledgedCount, acknowledge, clear };
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import type { SessionStatus } from '../../types/dashboard';
+
+/**
+ * Signed-in state of each session partition, by partition. Statuses come from
+ * the main process after each capture; partitions not captured since startup
+ * have none yet.
+ */
+export function useSessionStatuses(): Map<string, SessionStatus> {
+  const [statuses, setStatuses] = useState<Map<string, SessionStatus>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    window.api.sessions.list().then((result) => {
+      if (!cancelled && result.success && result.data) {
+        const loaded = result.data;
+        // Statuses pushed while the list was loading are newer
+        setStatuses((prev) => new Map([...loaded.map((status) => [status.partition, status] as const), ...prev]));
+      }
+    });
+
+    const unsubscribe = window.api.sessions.onStatus((status) => {
+      setStatuses((prev) => new Map(prev).set(status.partition, status));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return statuses;
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CaptureResult, CaptureState, WidgetSchedule } from '../../types/dashboard';
+
+interface UseWidgetCaptureReturn {
+  result: CaptureResult | null;
+  state: CaptureState;
+  schedule: WidgetSchedule | null;
+  refresh: () => void;
+}
+
+/**
+ * Subscribe to capture events for a widget.
+ * Captures run in the main process scheduler; this hook only listens for results.
+ */
+export function useWidgetCapture(widgetId: string): UseWidgetCaptureReturn {
+  const [result, setResult] = useState<CaptureResult | null>(null);
+  const [state, setState] = useState<CaptureState>('idle');
+  const [schedule, setSchedule] = useState<WidgetSchedule | null>(null);
+
+  const refresh = useCallback(() => {
+    window.api.capture.request(widgetId);
+  }, [widgetId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const unsubscribeResult = window.api.capture.onResult((next) => {
+      if (next.widgetId !== widgetId) return;
+      // A failed refresh keeps showing the last good image alongside the error
+      setResult((prev) => (next.success || !prev?.data ? next : { ...prev, error: next.error }));
+    });
+    const unsubscribeStatus = window.api.capture.onStatus((status) => {
+      if (status.widgetId === widgetId) {
+        setState(status.state);
+      }
+    });
+    const unsubscribeSchedule = window.api.capture.onSchedule((next) => {
+      if (next.widgetId === widgetId) {
+        setSchedule(next);
+      }
+    });
+
+    // Show the last capture immediately, or request the first one
+    window.api.capture.getLatest(widgetId).then((latest) => {
+      if (cancelled || !latest.success || !latest.data) return;
+      setState(latest.data.state);
+      setSchedule(latest.data.schedule);
+      if (latest.data.result) {
+        setResult(latest.data.result);
+      } else {
+        window.api.capture.request(widgetId);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeResult();
+      unsubscribeStatus();
+      unsubscribeSchedule();
+    };
+  }, [widgetId]);
+
+  return { result, state, schedule, refresh };
+}
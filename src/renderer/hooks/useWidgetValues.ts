@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import type { WidgetValuePoint } from '../../types/dashboard';
+
+/**
+ * Load a text widget's extracted values over the last `windowMs`.
+ * Reloads whenever `capturedAt` changes, i.e. after each new capture.
+ */
+export function useWidgetValues(widgetId: string, windowMs: number, capturedAt: number): WidgetValuePoint[] {
+  const [values, setValues] = useState<WidgetValuePoint[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.api.values.list(widgetId, Date.now() - windowMs).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setValues(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [widgetId, windowMs, capturedAt]);
+
+  return values;
+}
@@ -0,0 +1,121 @@
+/**
+ * In-Page Scripts
+ *
+ * Function sources injected into widget pages with executeJavaScript, shared
+ * by the capture windows (main process) and the live view's <webview>
+ * (renderer), so both find the selected elements the same way.
+ *
+ * Elements inside open shadow roots or same-origin iframes are selected with a
+ * path of CSS selectors joined by ' >>> ' (e.g. `grafana-panel >>> iframe >>> .graph`).
+ * Each part is looked up in the shadow root, or for an iframe the document, of
+ * the element matched by the part before it. Plain selectors resolve exactly
+ * like document.querySelector.
+ */
+
+export const PIERCE_SEPARATOR = ' >>> ';
+
+// Minimum similarity for a locator's fingerprint match (an equal text alone scores 3)
+const MIN_FINGERPRINT_SCORE = 4;
+// Elements compared against a fingerprint at most, to bound the cost on huge pages
+const MAX_FINGERPRINT_ELEMENTS = 5000;
+
+// In-page function resolving a (piercing) selector to an element, or null
+export const DEEP_QUERY_SOURCE = `(path) => {
+  let element = null;
+  for (const part of path.split(${JSON.stringify(PIERCE_SEPARATOR)})) {
+    let root = document;
+    if (element) {
+      root = element.tagName === 'IFRAME' || element.tagName === 'FRAME' ? element.contentDocument : element.shadowRoot;
+    }
+    element = root ? root.querySelector(part) : null;
+    if (!element) return null;
+  }
+  return element;
+}`;
+
+// In-page function measuring an element relative to the top-level viewport,
+// adding the offsets of the iframes it is nested in
+export const VIEWPORT_RECT_SOURCE = `(element) => {
+  const rect = element.getBoundingClientRect();
+  let x = rect.left;
+  let y = rect.top;
+  for (let frame = element.ownerDocument.defaultView.frameElement; frame; ) {
+    const frameRect = frame.getBoundingClientRect();
+    x += frameRect.left + frame.clientLeft;
+    y += frameRect.top + frame.clientTop;
+    frame = frame.ownerDocument.defaultView.frameElement;
+  }
+  return { x, y, width: rect.width, height: rect.height };
+}`;
+
+// In-page function returning a candidate's element, or null. CSS candidates of
+// elements in shadow roots or iframes are piercing selectors (see above).
+export const FIND_CANDIDATE_SOURCE = `(candidate) => {
+  try {
+    if (candidate.strategy === 'text' || candidate.strategy === 'xpath') {
+      return document.evaluate(candidate.value, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null)
+        .singleNodeValue;
+    }
+    return (${DEEP_QUERY_SOURCE})(candidate.value);
+  } catch {
+    return null;
+  }
+}`;
+
+// In-page function telling whether an element is rendered
+export const IS_VISIBLE_SOURCE = `(el) => {
+  const rect = el.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+}`;
+
+/**
+ * In-page function finding each selected element, trying its candidates in
+ * order and then its fingerprint. Returns one `{ el, strategy, candidateIndex }`
+ * per locator, with a null element and strategy when it wasn't found.
+ */
+export const FIND_LOCATORS_SOURCE = `(locators) => {
+  const find = ${FIND_CANDIDATE_SOURCE};
+  const isVisible = ${IS_VISIBLE_SOURCE};
+  const normalize = (text) => (text || '').trim().replace(/\\s+/g, ' ').slice(0, 100);
+
+  // Similarity to the picked element: id, shared classes and attributes, text and size
+  const score = (el, fingerprint) => {
+    let total = fingerprint.id && el.id === fingerprint.id ? 3 : 0;
+    if (fingerprint.classes.length > 0) {
+      const shared = fingerprint.classes.filter((name) => el.classList.contains(name)).length;
+      total += (2 * shared) / fingerprint.classes.length;
+    }
+    for (const [name, value] of Object.entries(fingerprint.attributes)) {
+      if (el.getAttribute(name) === value) total += 2;
+    }
+    const text = normalize(el.textContent);
+    if (fingerprint.text && text === fingerprint.text) total += 3;
+    else if (fingerprint.text && text.slice(0, 20) === fingerprint.text.slice(0, 20)) total += 1;
+    const rect = el.getBoundingClientRect();
+    const ratio = (a, b) => Math.min(a, b) / Math.max(a, b, 1);
+    return total + ratio(rect.width, fingerprint.width) + ratio(rect.height, fingerprint.height);
+  };
+
+  return locators.map((locator) => {
+    for (let i = 0; i < locator.candidates.length; i++) {
+      const el = find(locator.candidates[i]);
+      if (el && isVisible(el)) {
+        return { el, strategy: locator.candidates[i].strategy, candidateIndex: i };
+      }
+    }
+
+    let match = { el: null, strategy: null, candidateIndex: -1 };
+    let bestScore = ${MIN_FINGERPRINT_SCORE};
+    const elements = Array.from(document.getElementsByTagName(locator.fingerprint.tagName))
+      .slice(0, ${MAX_FINGERPRINT_ELEMENTS});
+    for (const el of elements) {
+      if (!isVisible(el)) continue;
+      const elementScore = score(el, locator.fingerprint);
+      if (elementScore > bestScore) {
+        bestScore = elementScore;
+        match = { el, strategy: 'fingerprint', candidateIndex: -1 };
+      }
+    }
+    return match;
+  });
+}`;
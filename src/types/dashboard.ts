@@ -7,6 +7,8 @@ export interface Dashboard {
   id: string;
   name: string;
   gridColumns: number;
+  // Pauses auto-refresh for every widget on the dashboard
+  refreshPaused: boolean;
   createdAt: number;
   updatedAt: number;
 }
@@ -19,13 +21,78 @@ export interface CreateDashboardData {
 export interface UpdateDashboardData {
   name?: string;
   gridColumns?: number;
+  refreshPaused?: boolean;
 }
 
 // Widget selector types
-export type SelectorType = 'css' | 'crop';
+// 'text' reads the innerText of the selected elements and shows it as a KPI tile
+export type SelectorType = 'css' | 'crop' | 'text';
+
+// How multiple selected elements are composed into one image (see src/capture/compose.ts)
+// 'page' keeps the elements' positions relative to each other on the page
+export type CompositeLayout = 'vertical' | 'horizontal' | 'page';
+
+// Ways of finding a selected element again, recorded by the picker (see src/capture/locators.ts)
+// 'id', 'attribute' and 'css' are CSS selectors; 'text' and 'xpath' are XPath expressions
+export type LocatorStrategy = 'id' | 'attribute' | 'text' | 'css' | 'xpath';
+
+export interface LocatorCandidate {
+  strategy: LocatorStrategy;
+  value: string;
+}
+
+// What the element looked like when it was picked, to find the closest match
+// when no candidate matches anymore
+export interface ElementFingerprint {
+  tagName: string;
+  id: string;
+  classes: string[];
+  attributes: Record<string, string>;
+  text: string;
+  width: number;
+  height: number;
+}
+
+export interface ElementLocator {
+  // Most stable first
+  candidates: LocatorCandidate[];
+  fingerprint: ElementFingerprint;
+}
+
+// How a selected element was found during a capture
+export interface LocatorMatch {
+  // null when the element wasn't found
+  strategy: LocatorStrategy | 'fingerprint' | null;
+  // Index of the matching candidate (-1 for fingerprint matches and misses)
+  candidateIndex: number;
+}
 
 export interface CssSelectorData {
   selectors: string[];
+  // Fallback locators, one per selector (widgets picked before these existed have none)
+  locators?: ElementLocator[];
+  // Composition of multiple elements (default 'vertical')
+  layout?: CompositeLayout;
+  // Space around each element in pixels (default 0)
+  padding?: number;
+}
+
+export interface TextSelectorData {
+  selectors: string[];
+  locators?: ElementLocator[];
+  // Show the extracted text as a number
+  parseNumber: boolean;
+  // Regex used to find the number in the text; the first capture group wins if present
+  numberPattern?: string;
+}
+
+// Element a crop region is positioned relative to, so the region follows it
+// when the layout above it shifts
+export interface CropAnchor {
+  locator: ElementLocator;
+  // Offset of the region's top-left corner from the element's, in CSS pixels
+  offsetX: number;
+  offsetY: number;
 }
 
 export interface CropSelectorData {
@@ -35,9 +102,114 @@ export interface CropSelectorData {
   height: number;
   scrollX: number;
   scrollY: number;
+  // Without an anchor the region stays at its page coordinates
+  anchor?: CropAnchor;
+}
+
+export type SelectorData = CssSelectorData | CropSelectorData | TextSelectorData;
+
+// Change detection: compare each capture with the previous one
+// 'pixel' alerts when the changed pixel percentage exceeds the threshold,
+// 'text' alerts when the text of the selected elements changes
+export type AlertMode = 'off' | 'pixel' | 'text';
+
+// Page viewport used by both the picker and capture windows, so crop
+// coordinates line up (see src/capture/viewport.ts)
+export type ViewportPreset = 'desktop' | 'laptop' | 'tablet' | 'phone' | 'custom';
+
+export interface WidgetViewport {
+  preset: ViewportPreset;
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  // Emulate a touch device's mobile screen
+  mobile: boolean;
+  // Empty keeps the default user agent
+  userAgent: string;
+}
+
+const IPHONE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const IPAD_USER_AGENT =
+  'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+export const VIEWPORT_PRESETS: Record<Exclude<ViewportPreset, 'custom'>, WidgetViewport> = {
+  desktop: { preset: 'desktop', width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false, userAgent: '' },
+  laptop: { preset: 'laptop', width: 1440, height: 900, deviceScaleFactor: 1, mobile: false, userAgent: '' },
+  tablet: { preset: 'tablet', width: 820, height: 1180, deviceScaleFactor: 2, mobile: true, userAgent: IPAD_USER_AGENT },
+  phone: { preset: 'phone', width: 390, height: 844, deviceScaleFactor: 3, mobile: true, userAgent: IPHONE_USER_AGENT },
+};
+
+export const DEFAULT_VIEWPORT = VIEWPORT_PRESETS.desktop;
+
+// Capture size options. Elements and pages taller than the capture window are
+// scrolled through and stitched together, up to maxHeight.
+export interface CaptureOptions {
+  // Capture the whole page instead of the selected elements or crop region
+  fullPage: boolean;
+  // Tallest capture in CSS pixels; anything below is cut off to bound memory use
+  maxHeight: number;
+}
+
+// 'snapshot' shows the latest capture as an image, 'live' mounts an interactive
+// <webview> clipped to the selection (falls back to the snapshot on error)
+export type DisplayMode = 'snapshot' | 'live';
+
+// Threshold rules on a text widget's parsed number (evaluated after each capture, see src/capture/rules.ts)
+// 'value' compares the number itself, 'change' the absolute percentage change since the previous capture
+export type RuleMetric = 'value' | 'change';
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+export type RuleColor = 'red' | 'amber' | 'green';
+
+export interface WidgetRule {
+  id: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: number;
+  // Widget header colour while the rule matches (null = no colour)
+  color: RuleColor | null;
+  // Record an alert and show a notification when the rule starts matching
+  notify: boolean;
 }
 
-export type SelectorData = CssSelectorData | CropSelectorData;
+// How the capture waits for a page to finish rendering before taking the screenshot
+export type WaitStrategyType = 'selector' | 'network-idle' | 'predicate' | 'delay';
+
+export interface WaitStrategy {
+  type: WaitStrategyType;
+  // 'selector': CSS selector to wait for (defaults to the widget's own selectors)
+  selector?: string;
+  // 'predicate': JavaScript expression evaluated in the page until it is truthy
+  script?: string;
+  // 'delay': fixed wait in milliseconds
+  delayMs?: number;
+  // Give up waiting and capture anyway after this many milliseconds
+  timeoutMs: number;
+}
+
+// Interaction recorded in the picker and replayed before every capture
+export type MacroStepType = 'click' | 'type' | 'select' | 'wait';
+
+export interface MacroStep {
+  type: MacroStepType;
+  // 'click', 'type' and 'select': element to act on
+  selector?: string;
+  // 'type': text to enter; 'select': option value to choose
+  value?: string;
+  // 'wait': pause in milliseconds
+  delayMs?: number;
+}
+
+export type MacroStepStatus = 'ok' | 'failed' | 'skipped';
+
+// Outcome of one step in the macro debugger
+export interface MacroStepResult {
+  status: MacroStepStatus;
+  error: string | null;
+  durationMs: number;
+  // Data URL of a thumbnail of the page after the step
+  image: string | null;
+}
 
 // Widget types
 export interface Widget {
@@ -52,7 +224,30 @@ export interface Widget {
   gridColSpan: number;
   gridRowSpan: number;
   refreshInterval: number;
+  refreshPaused: boolean;
   zoomLevel: number;
+  displayMode: DisplayMode;
+  captureOptions: CaptureOptions;
+  viewport: WidgetViewport;
+  // Injected after the page is ready and before the selection is captured,
+  // e.g. to hide cookie banners or dismiss modals
+  preCaptureCss: string | null;
+  preCaptureJs: string | null;
+  // Elements marked in the picker's hide mode, set to visibility:hidden before every capture
+  hiddenSelectors: string[];
+  // Replayed after the page is ready and before the selection is captured
+  macro: MacroStep[];
+  // null uses the default: wait for the widget's selectors, or network idle for crop widgets
+  waitStrategy: WaitStrategy | null;
+  // Snapshot history retention: keep at most this many captures (0 = no limit)
+  snapshotRetentionCount: number;
+  // ...and drop captures older than this many days (0 = no limit)
+  snapshotRetentionDays: number;
+  alertMode: AlertMode;
+  // Percentage of changed pixels that triggers a 'pixel' alert
+  alertThreshold: number;
+  // Threshold rules, in order (text widgets with number parsing only)
+  rules: WidgetRule[];
   partition: string;
   hasCredentials: boolean;
   credentialGroupId: string | null;
@@ -72,6 +267,21 @@ export interface CreateWidgetData {
   gridRowSpan?: number;
   refreshInterval?: number;
   zoomLevel?: number;
+  // Viewport the selection was made in (defaults to desktop)
+  viewport?: WidgetViewport;
+  hiddenSelectors?: string[];
+  macro?: MacroStep[];
+  // Settings of a duplicated widget (defaults for new widgets)
+  displayMode?: DisplayMode;
+  captureOptions?: CaptureOptions;
+  preCaptureCss?: string | null;
+  preCaptureJs?: string | null;
+  waitStrategy?: WaitStrategy | null;
+  snapshotRetentionCount?: number;
+  snapshotRetentionDays?: number;
+  alertMode?: AlertMode;
+  alertThreshold?: number;
+  rules?: WidgetRule[];
   credentialGroupId?: string;
   // Optional pre-generated partition (used when picker session should be preserved)
   partition?: string;
@@ -87,7 +297,21 @@ export interface UpdateWidgetData {
   gridColSpan?: number;
   gridRowSpan?: number;
   refreshInterval?: number;
+  refreshPaused?: boolean;
   zoomLevel?: number;
+  displayMode?: DisplayMode;
+  captureOptions?: CaptureOptions;
+  viewport?: WidgetViewport;
+  preCaptureCss?: string | null;
+  preCaptureJs?: string | null;
+  hiddenSelectors?: string[];
+  macro?: MacroStep[];
+  waitStrategy?: WaitStrategy | null;
+  snapshotRetentionCount?: number;
+  snapshotRetentionDays?: number;
+  alertMode?: AlertMode;
+  alertThreshold?: number;
+  rules?: WidgetRule[];
   credentialGroupId?: string | null;
 }
 
@@ -99,6 +323,28 @@ export interface WidgetPosition {
   gridRowSpan: number;
 }
 
+// Step of a multi-page login (username page, password page, "stay signed in?"
+// prompt...), recorded in the credential picker and replayed in order
+export type LoginStepType = 'fill' | 'click' | 'wait-for-selector' | 'wait-for-url';
+
+// What a 'fill' step enters: the stored username or password, the current
+// TOTP code, or fixed text
+export type LoginFillSource = 'username' | 'password' | 'totp' | 'text';
+
+export interface LoginStep {
+  type: LoginStepType;
+  // 'fill', 'click' and 'wait-for-selector': element to act on or wait for
+  selector?: string;
+  // 'fill': what to enter (default 'username')
+  fill?: LoginFillSource;
+  // 'fill' with 'text': the text to enter
+  value?: string;
+  // 'wait-for-url': part of the URL to wait for
+  url?: string;
+  // Skipped when its element doesn't show up, for prompts that only appear sometimes
+  optional?: boolean;
+}
+
 // Widget credentials types
 export interface WidgetCredentials {
   widgetId: string;
@@ -108,6 +354,16 @@ export interface WidgetCredentials {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector: string;
+  // Replaces the single-form selectors when not empty
+  loginSteps: LoginStep[];
+  // Base32 TOTP secret or otpauth:// URI for two-factor codes ('' without 2FA)
+  totpSecret: string;
+  // Code field shown after the password is submitted
+  totpSelector: string;
+  // Proof of a successful login: an element of the signed-in app, or part of
+  // its URL ('' to only check that the login form went away)
+  successSelector: string;
+  successUrl: string;
 }
 
 export interface SaveCredentialsData {
@@ -117,13 +373,149 @@ export interface SaveCredentialsData {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector: string;
+  loginSteps?: LoginStep[];
+  totpSecret?: string;
+  totpSelector?: string;
+  successSelector?: string;
+  successUrl?: string;
 }
 
+
 // Widget picker types
 export interface PickerSelection {
   url: string;
   selectorType: SelectorType;
   selectorData: SelectorData;
+  // Selectors of the elements hidden in the picker's hide mode
+  hiddenSelectors?: string[];
+  // Interactions recorded in the picker's record mode
+  macroSteps?: MacroStep[];
+}
+
+// Capture types (pushed from the main process capture scheduler)
+export type CaptureState = 'idle' | 'queued' | 'capturing';
+
+export interface CaptureStatus {
+  widgetId: string;
+  state: CaptureState;
+}
+
+export interface CaptureResult {
+  widgetId: string;
+  success: boolean;
+  // PNG data URL of the captured region
+  data?: string;
+  // Text of the selected elements (css and text widgets)
+  text?: string;
+  // Number parsed from the text (text widgets with parseNumber)
+  value?: number | null;
+  // Colour of the most severe matching threshold rule
+  ruleStatus?: RuleColor | null;
+  // Set when selected elements had to be found through fallback locators or weren't found
+  locatorWarning?: string | null;
+  error?: { code: string; message: string };
+  capturedAt: number;
+}
+
+// Why a capture failed, for failures the capture itself can tell apart:
+// - AUTH_FAILED        - still on the login page (wrong password, expired session...)
+// - SELECTOR_NOT_FOUND - signed in, but the selected elements aren't on the page
+// - TIMEOUT            - the page didn't finish loading in time
+// - NAVIGATION_ERROR   - the page couldn't be loaded (DNS, TLS, connection...)
+export type CaptureErrorCode = 'AUTH_FAILED' | 'SELECTOR_NOT_FOUND' | 'TIMEOUT' | 'NAVIGATION_ERROR';
+
+// Whether a session partition is signed in, going by its most recent capture
+export type SessionState = 'active' | 'auth-failed';
+
+export interface SessionStatus {
+  partition: string;
+  state: SessionState;
+  // Why the login failed (auth-failed only)
+  message: string | null;
+  checkedAt: number;
+}
+
+// Session partition listed in the session manager: a credential group's, or
+// the one a widget without a group has to itself
+export interface SessionPartition {
+  partition: string;
+  // Credential group or widget name
+  name: string;
+  kind: 'group' | 'widget';
+  widgetCount: number;
+}
+
+// Cookie shown in the session manager (values stay in the main process)
+export interface SessionCookie {
+  name: string;
+  domain: string;
+  path: string;
+  // Epoch seconds, null for cookies that end with the browser session
+  expirationDate: number | null;
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+// What a session export or import carried over
+export interface SessionTransferSummary {
+  cookies: number;
+  // Sites whose localStorage was included
+  origins: number;
+}
+
+export interface WidgetSchedule {
+  widgetId: string;
+  // Epoch ms of the next automatic capture, null when manual-only or paused
+  nextDueAt: number | null;
+  // True when the widget or its dashboard has auto-refresh paused
+  paused: boolean;
+}
+
+// Captured image persisted on disk (see src/capture/snapshots.ts)
+export interface WidgetSnapshot {
+  id: string;
+  widgetId: string;
+  // Path relative to the snapshots folder in userData
+  filePath: string;
+  width: number;
+  height: number;
+  // Text of the selected elements (css widgets only)
+  text: string | null;
+  capturedAt: number;
+}
+
+// Pixel diff between two snapshots
+export interface SnapshotDiff {
+  // PNG data URL of the newer snapshot dimmed, with changed pixels highlighted
+  data: string;
+  width: number;
+  height: number;
+  changedPixels: number;
+  totalPixels: number;
+}
+
+// Number extracted by a text widget at one capture (see src/capture/values.ts)
+export interface WidgetValuePoint {
+  value: number;
+  capturedAt: number;
+}
+
+// Change detected between two captures of a widget
+export interface WidgetAlert {
+  id: string;
+  widgetId: string;
+  dashboardId: string;
+  // Widget name at the time of the alert, so the log survives renames
+  widgetName: string;
+  kind: 'pixel' | 'text' | 'rule';
+  message: string;
+  // Fraction of changed pixels (pixel alerts)
+  changeRatio: number | null;
+  previousText: string | null;
+  currentText: string | null;
+  snapshotId: string | null;
+  acknowledged: boolean;
+  createdAt: number;
 }
 
 // Database row types (snake_case as stored in SQLite)
@@ -131,6 +523,7 @@ export interface DashboardRow {
   id: string;
   name: string;
   grid_columns: number;
+  refresh_paused: number;
   created_at: number;
   updated_at: number;
 }
@@ -147,7 +540,21 @@ export interface WidgetRow {
   grid_col_span: number;
   grid_row_span: number;
   refresh_interval: number;
+  refresh_paused: number;
   zoom_level: number;
+  display_mode: string;
+  capture_options: string;
+  viewport: string | null;
+  pre_capture_css: string | null;
+  pre_capture_js: string | null;
+  hidden_selectors: string;
+  macro: string;
+  wait_strategy: string | null;
+  snapshot_retention_count: number;
+  snapshot_retention_days: number;
+  alert_mode: string;
+  alert_threshold: number;
+  rules: string;
   partition: string;
   has_credentials: number;
   credential_group_id: string | null;
@@ -155,6 +562,31 @@ export interface WidgetRow {
   updated_at: number;
 }
 
+export interface WidgetSnapshotRow {
+  id: string;
+  widget_id: string;
+  file_path: string;
+  width: number;
+  height: number;
+  text: string | null;
+  captured_at: number;
+}
+
+export interface WidgetAlertRow {
+  id: string;
+  widget_id: string;
+  dashboard_id: string;
+  widget_name: string;
+  kind: string;
+  message: string;
+  change_ratio: number | null;
+  previous_text: string | null;
+  current_text: string | null;
+  snapshot_id: string | null;
+  acknowledged: number;
+  created_at: number;
+}
+
 export interface WidgetCredentialsRow {
   widget_id: string;
   encrypted_username: Buffer;
@@ -163,6 +595,11 @@ export interface WidgetCredentialsRow {
   username_selector: string;
   password_selector: string;
   submit_selector: string;
+  login_steps: string;
+  encrypted_totp_secret: Buffer | null;
+  totp_selector: string | null;
+  success_selector: string | null;
+  success_url: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -176,6 +613,12 @@ export interface CredentialGroup {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector: string;
+  loginSteps: LoginStep[];
+  // Whether a TOTP secret is stored; the secret itself is only decrypted on request
+  hasTotp: boolean;
+  totpSelector: string;
+  successSelector: string;
+  successUrl: string;
   partition: string;
   createdAt: number;
   updatedAt: number;
@@ -183,6 +626,7 @@ export interface CredentialGroup {
 
 export interface CredentialGroupWithPassword extends CredentialGroup {
   password: string;
+  totpSecret: string;
 }
 
 export interface CreateCredentialGroupData {
@@ -193,6 +637,11 @@ export interface CreateCredentialGroupData {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector?: string;
+  loginSteps?: LoginStep[];
+  totpSecret?: string;
+  totpSelector?: string;
+  successSelector?: string;
+  successUrl?: string;
 }
 
 export interface UpdateCredentialGroupData {
@@ -203,6 +652,12 @@ export interface UpdateCredentialGroupData {
   usernameSelector?: string;
   passwordSelector?: string;
   submitSelector?: string;
+  loginSteps?: LoginStep[];
+  // '' removes the stored secret
+  totpSecret?: string;
+  totpSelector?: string;
+  successSelector?: string;
+  successUrl?: string;
 }
 
 export interface CredentialGroupRow {
@@ -214,6 +669,11 @@ export interface CredentialGroupRow {
   username_selector: string;
   password_selector: string;
   submit_selector: string | null;
+  login_steps: string;
+  encrypted_totp_secret: Buffer | null;
+  totp_selector: string | null;
+  success_selector: string | null;
+  success_url: string | null;
   partition: string;
   created_at: number;
   updated_at: number;
@@ -225,6 +685,7 @@ export function dashboardFromRow(row: DashboardRow): Dashboard {
     id: row.id,
     name: row.name,
     gridColumns: row.grid_columns,
+    refreshPaused: row.refresh_paused === 1,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -243,7 +704,21 @@ export function widgetFromRow(row: WidgetRow): Widget {
     gridColSpan: row.grid_col_span,
     gridRowSpan: row.grid_row_span,
     refreshInterval: row.refresh_interval,
+    refreshPaused: row.refresh_paused === 1,
     zoomLevel: row.zoom_level,
+    displayMode: row.display_mode as DisplayMode,
+    captureOptions: JSON.parse(row.capture_options),
+    viewport: row.viewport ? JSON.parse(row.viewport) : DEFAULT_VIEWPORT,
+    preCaptureCss: row.pre_capture_css,
+    preCaptureJs: row.pre_capture_js,
+    hiddenSelectors: JSON.parse(row.hidden_selectors),
+    macro: JSON.parse(row.macro),
+    waitStrategy: row.wait_strategy ? JSON.parse(row.wait_strategy) : null,
+    snapshotRetentionCount: row.snapshot_retention_count,
+    snapshotRetentionDays: row.snapshot_retention_days,
+    alertMode: row.alert_mode as AlertMode,
+    alertThreshold: row.alert_threshold,
+    rules: JSON.parse(row.rules),
     partition: row.partition,
     hasCredentials: row.has_credentials === 1,
     credentialGroupId: row.credential_group_id,
@@ -252,6 +727,35 @@ export function widgetFromRow(row: WidgetRow): Widget {
   };
 }
 
+export function snapshotFromRow(row: WidgetSnapshotRow): WidgetSnapshot {
+  return {
+    id: row.id,
+    widgetId: row.widget_id,
+    filePath: row.file_path,
+    width: row.width,
+    height: row.height,
+    text: row.text,
+    capturedAt: row.captured_at,
+  };
+}
+
+export function alertFromRow(row: WidgetAlertRow): WidgetAlert {
+  return {
+    id: row.id,
+    widgetId: row.widget_id,
+    dashboardId: row.dashboard_id,
+    widgetName: row.widget_name,
+    kind: row.kind as WidgetAlert['kind'],
+    message: row.message,
+    changeRatio: row.change_ratio,
+    previousText: row.previous_text,
+    currentText: row.current_text,
+    snapshotId: row.snapshot_id,
+    acknowledged: row.acknowledged === 1,
+    createdAt: row.created_at,
+  };
+}
+
 export function credentialGroupFromRow(
   row: CredentialGroupRow,
   decryptedUsername: string
@@ -264,6 +768,11 @@ export function credentialGroupFromRow(
     usernameSelector: row.username_selector,
     passwordSelector: row.password_selector,
     submitSelector: row.submit_selector || '',
+    loginSteps: JSON.parse(row.login_steps),
+    hasTotp: row.encrypted_totp_secret !== null,
+    totpSelector: row.totp_selector || '',
+    successSelector: row.success_selector || '',
+    successUrl: row.success_url || '',
     partition: row.partition,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -15,11 +15,27 @@ import type {
   WidgetPosition,
   SaveCredentialsData,
   WidgetCredentials,
+  LoginStep,
   PickerSelection,
   CredentialGroup,
   CredentialGroupWithPassword,
   CreateCredentialGroupData,
   UpdateCredentialGroupData,
+  CaptureResult,
+  CaptureState,
+  CaptureStatus,
+  WidgetSchedule,
+  WidgetSnapshot,
+  SnapshotDiff,
+  WidgetAlert,
+  WidgetValuePoint,
+  WidgetViewport,
+  MacroStep,
+  MacroStepResult,
+  SessionStatus,
+  SessionPartition,
+  SessionCookie,
+  SessionTransferSummary,
 } from './dashboard';
 
 export interface IPCError {
@@ -107,32 +123,6 @@ export interface DashboardsAPI {
   delete: (id: string) => Promise<IPCResponse<void>>;
 }
 
-/**
- * Screenshot capture request
- */
-export interface ScreenshotCaptureRequest {
-  url: string;
-  partition: string;
-  selectorType: 'css' | 'crop';
-  selectorData: {
-    selectors?: string[];
-    x?: number;
-    y?: number;
-    width?: number;
-    height?: number;
-    scrollX?: number;
-    scrollY?: number;
-  };
-  credentials?: {
-    username: string;
-    password: string;
-    loginUrl: string;
-    usernameSelector: string;
-    passwordSelector: string;
-    submitSelector: string;
-  };
-}
-
 /**
  * Widgets API for managing dashboard widgets
  */
@@ -143,7 +133,82 @@ export interface WidgetsAPI {
   update: (id: string, data: UpdateWidgetData) => Promise<IPCResponse<Widget>>;
   delete: (id: string) => Promise<IPCResponse<void>>;
   updatePositions: (positions: WidgetPosition[]) => Promise<IPCResponse<void>>;
-  captureScreenshot: (request: ScreenshotCaptureRequest) => Promise<IPCResponse<string>>;
+}
+
+/**
+ * Latest known capture for a widget
+ */
+export interface LatestCapture {
+  result: CaptureResult | null;
+  state: CaptureState;
+  schedule: WidgetSchedule;
+}
+
+/**
+ * Capture API for the main process capture scheduler
+ * Listener registration returns an unsubscribe function
+ */
+export interface CaptureAPI {
+  request: (widgetId: string) => Promise<IPCResponse<void>>;
+  getLatest: (widgetId: string) => Promise<IPCResponse<LatestCapture>>;
+  // Replay macro steps on the widget's page and report each step's outcome
+  debugMacro: (widgetId: string, steps: MacroStep[]) => Promise<IPCResponse<MacroStepResult[]>>;
+  onResult: (callback: (result: CaptureResult) => void) => () => void;
+  onStatus: (callback: (status: CaptureStatus) => void) => () => void;
+  onSchedule: (callback: (schedule: WidgetSchedule) => void) => () => void;
+}
+
+/**
+ * Snapshots API for browsing a widget's capture history
+ */
+export interface SnapshotsAPI {
+  list: (widgetId: string) => Promise<IPCResponse<WidgetSnapshot[]>>;
+  getImage: (id: string) => Promise<IPCResponse<string>>;
+  diff: (baseId: string, compareId: string) => Promise<IPCResponse<SnapshotDiff>>;
+}
+
+/**
+ * Values API for the numbers extracted by text widgets over time
+ */
+export interface ValuesAPI {
+  list: (widgetId: string, since: number) => Promise<IPCResponse<WidgetValuePoint[]>>;
+}
+
+/**
+ * Alerts API for the per-dashboard change detection log
+ * onAlert returns an unsubscribe function
+ */
+export interface AlertsAPI {
+  list: (dashboardId: string) => Promise<IPCResponse<WidgetAlert[]>>;
+  acknowledge: (dashboardId: string, widgetId?: string) => Promise<IPCResponse<void>>;
+  clear: (dashboardId: string) => Promise<IPCResponse<void>>;
+  onAlert: (callback: (alert: WidgetAlert) => void) => () => void;
+}
+
+/**
+ * Sessions API for the signed-in state, cookies and storage of session partitions
+ * onStatus returns an unsubscribe function
+ */
+export interface SessionsAPI {
+  list: () => Promise<IPCResponse<SessionStatus[]>>;
+  // Resolves once the sign-in window closes: true when the user was seen signing in
+  signIn: (partition: string) => Promise<IPCResponse<boolean>>;
+  partitions: () => Promise<IPCResponse<SessionPartition[]>>;
+  cookies: (partition: string) => Promise<IPCResponse<SessionCookie[]>>;
+  removeCookie: (partition: string, cookie: SessionCookie) => Promise<IPCResponse<void>>;
+  clearCookies: (partition: string) => Promise<IPCResponse<void>>;
+  // Cookies and localStorage, in a file encrypted with the passphrase
+  exportSession: (
+    partition: string,
+    filePath: string,
+    passphrase: string
+  ) => Promise<IPCResponse<SessionTransferSummary>>;
+  importSession: (
+    partition: string,
+    filePath: string,
+    passphrase: string
+  ) => Promise<IPCResponse<SessionTransferSummary>>;
+  onStatus: (callback: (status: SessionStatus) => void) => () => void;
 }
 
 /**
@@ -161,7 +226,7 @@ export interface CredentialsAPI {
  * @param partition - Optional partition to share session with the widget
  */
 export interface WidgetPickerAPI {
-  open: (url: string, partition?: string) => Promise<IPCResponse<PickerSelection | null>>;
+  open: (url: string, partition?: string, viewport?: WidgetViewport) => Promise<IPCResponse<PickerSelection | null>>;
   onSelectionComplete: (callback: (selection: PickerSelection) => void) => void;
   removeSelectionListener: () => void;
 }
@@ -173,6 +238,10 @@ export interface CredentialPickerSelection {
   usernameSelector: string;
   passwordSelector: string;
   submitSelector: string;
+  // Two-factor code field, '' when skipped
+  totpSelector: string;
+  // Steps recorded in the picker's record mode, empty when fields were selected
+  loginSteps: LoginStep[];
 }
 
 /**
@@ -205,6 +274,11 @@ export interface WindowAPI {
   app: AppAPI;
   dashboards: DashboardsAPI;
   widgets: WidgetsAPI;
+  capture: CaptureAPI;
+  snapshots: SnapshotsAPI;
+  values: ValuesAPI;
+  alerts: AlertsAPI;
+  sessions: SessionsAPI;
   credentials: CredentialsAPI;
   credentialGroups: CredentialGroupsAPI;
   widgetPicker: WidgetPickerAPI;